@@ -1,23 +1,152 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import TetrisGame from './components/TetrisGame';
-import { ActivePiece, GameState, CellValue } from './types';
-import { BOARD_WIDTH, COLORS, INITIAL_FALL_INTERVAL, LEVEL_INTERVAL_DECREMENT, LINES_PER_LEVEL } from './constants';
+import PiecePreview from './components/PiecePreview';
+import SettingsPanel from './components/SettingsPanel';
+import StatsPage from './components/StatsPage';
+import LiveStatsPanel from './components/LiveStatsPanel';
+import ReplayControls from './components/ReplayControls';
+import PuzzlePicker from './components/PuzzlePicker';
+import PuzzleEditor from './components/PuzzleEditor';
+import VersusGame from './components/VersusGame';
+import { AudioSettings, CameraPresetId, CameraSettings, EffectSettings, GameResult, GameState, GameSetup, GhostSettings, HintSettings, HintStats, PiecePreviews } from './types';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_CAMERA_SETTINGS, DEFAULT_EFFECT_SETTINGS, DEFAULT_GHOST_SETTINGS, MAX_PREVIEW_COUNT } from './constants';
+import { GENERATORS, RandomizerKind, getGenerator } from './engine/randomizer';
+import { randomSeed } from './engine/random';
+import { ROTATION_SYSTEMS, RotationSystem } from './engine/rotation';
+import { SCORING_TABLES, ScoringTableId } from './engine/scoring';
+import { DEFAULT_HANDLING, HandlingSettings } from './engine/handling';
+import { Replay, ReplayPlayer, createReplayPlayer, parseReplay } from './engine/replay';
+import { StatsSnapshot } from './engine/stats';
+import { AI_AGENTS } from './ai/agents';
+import { AiAgentConfig, AiAgentId } from './ai/types';
+import { WeightPreset, parseWeightPreset, presetConfig } from './ai/presets';
+import { CAMERA_PRESETS } from './components/cameraRig';
+import { DEFAULT_THEME_ID, Theme, findTheme } from './themes';
+import { DEFAULT_GAME_MODE, GAME_MODES, GameModeId, getGameMode } from './engine/modes';
+import { Puzzle } from './engine/puzzle';
+import {
+  DEFAULT_CUSTOM_GRAVITY, GRAVITY_CURVES, GravityCurveId, GravityStep, customGravityCurve, formatGravity, formatGravitySteps, gravityAt, parseGravitySteps,
+} from './engine/gravity';
+import { PuzzleProgress, describeGoal, recordPuzzleAttempt } from './puzzles';
+import { ScoreRecord, addRecord, createRecord, formatDuration, formatPreciseDuration, isTimedMode, leaderboardRank } from './records';
+import { usePersistentSetting } from './settings';
+import { downloadJson, readFileAsText } from './files';
+
+const CLEAR_LABEL_DURATION = 1500; // ms
+
+const EMPTY_PREVIEWS: PiecePreviews = { next: [], hold: null, holdUsed: false };
+const EMPTY_HINT_STATS: HintStats = { suggested: 0, matched: 0 };
+const DEFAULT_HINTS: HintSettings = { enabled: false, showTopThree: false };
+
+const GAME_OVER_TITLES: Record<GameResult['reason'], { text: string; className: string }> = {
+  topOut: { text: '게임 종료', className: 'text-red-500' },
+  goalReached: { text: '완료!', className: 'text-green-400' },
+  timeUp: { text: '시간 종료', className: 'text-yellow-300' },
+  outOfPieces: { text: '실패', className: 'text-red-500' },
+};
 
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.Initial);
   const [score, setScore] = useState(0);
   const [linesCleared, setLinesCleared] = useState(0);
   const [level, setLevel] = useState(1);
-  const [nextPiecePreview, setNextPiecePreview] = useState<ActivePiece | null>(null);
-  const [isAiActive, setIsAiActive] = useState(false);
+  const [previews, setPreviews] = useState<PiecePreviews>(EMPTY_PREVIEWS);
+  const [aiSelection, setAiSelection] = useState<AiAgentId | 'preset' | null>(null);
+  const [aiPreset, setAiPreset] = usePersistentSetting<WeightPreset | null>('aiPreset', null);
+  const [aiPresetError, setAiPresetError] = useState<string | null>(null);
+  const aiPresetFileInputRef = useRef<HTMLInputElement>(null);
+  const [hints, setHints] = usePersistentSetting<HintSettings>('hints', DEFAULT_HINTS);
+  const [hintStats, setHintStats] = useState<HintStats>(EMPTY_HINT_STATS);
+  // Memoized so the game only restarts its AI when the choice actually changes
+  const aiAgent = useMemo<AiAgentConfig | null>(() => {
+    if (aiSelection === 'preset') return aiPreset ? presetConfig(aiPreset) : null;
+    return aiSelection ? { id: aiSelection } : null;
+  }, [aiSelection, aiPreset]);
+  const [randomizer, setRandomizer] = useState<RandomizerKind>('bag7');
+  const [rotationSystem, setRotationSystem] = useState<RotationSystem>('srs');
+  const [previewCount, setPreviewCount] = useState(3);
+  const [scoringTable, setScoringTable] = useState<ScoringTableId>('guideline');
+  const [gravityChoice, setGravityChoice] = useState<GravityCurveId | 'mode'>('mode');
+  const [customGravity, setCustomGravity] = usePersistentSetting<GravityStep[]>('customGravity', DEFAULT_CUSTOM_GRAVITY);
+  const [customGravityInput, setCustomGravityInput] = useState(() => formatGravitySteps(customGravity));
+  const [customGravityError, setCustomGravityError] = useState<string | null>(null);
+  const [seedInput, setSeedInput] = useState('');
+  const [handling, setHandling] = usePersistentSetting<HandlingSettings>('handling', DEFAULT_HANDLING);
+  const [ghost, setGhost] = usePersistentSetting<GhostSettings>('ghost', DEFAULT_GHOST_SETTINGS);
+  const [showFps, setShowFps] = usePersistentSetting('showFps', false);
+  const [themeId, setThemeId] = usePersistentSetting('theme', DEFAULT_THEME_ID);
+  const [customThemes, setCustomThemes] = usePersistentSetting<Theme[]>('customThemes', []);
+  const theme = useMemo(() => findTheme(themeId, customThemes), [themeId, customThemes]);
+  const [camera, setCamera] = usePersistentSetting<CameraSettings>('camera', DEFAULT_CAMERA_SETTINGS);
+  const [viewResets, setViewResets] = useState(0);
+  // The first visit follows the system's reduced motion preference
+  const [effects, setEffects] = usePersistentSetting<EffectSettings>('effects', {
+    ...DEFAULT_EFFECT_SETTINGS,
+    reducedMotion: window.matchMedia?.('(prefers-reduced-motion: reduce)').matches ?? false,
+  });
+  const [audio, setAudio] = usePersistentSetting<AudioSettings>('audio', DEFAULT_AUDIO_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [playerName, setPlayerName] = usePersistentSetting('playerName', '플레이어');
+  const [records, setRecords] = usePersistentSetting<ScoreRecord[]>('records', []);
+  const [lastRecord, setLastRecord] = useState<ScoreRecord | null>(null);
+  const [lastResult, setLastResult] = useState<GameResult | null>(null);
+  const [gameMode, setGameMode] = usePersistentSetting<GameModeId>('mode', DEFAULT_GAME_MODE);
+  const [customPuzzles, setCustomPuzzles] = usePersistentSetting<Puzzle[]>('customPuzzles', []);
+  const [puzzleProgress, setPuzzleProgress] = usePersistentSetting<PuzzleProgress>('puzzleProgress', {});
+  const [activePuzzle, setActivePuzzle] = useState<Puzzle | null>(null);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [editingPuzzle, setEditingPuzzle] = useState<{ puzzle: Puzzle | null } | null>(null);
+  const [undoRequests, setUndoRequests] = useState(0);
+  const [versusWinner, setVersusWinner] = useState<number | null>(null);
+  const [liveStats, setLiveStats] = useState<StatsSnapshot | null>(null);
+  const [clearLabels, setClearLabels] = useState<string[]>([]);
+  const clearLabelTimeoutRef = useRef<number | null>(null);
+  const [setup, setSetup] = useState<GameSetup | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replayPlayer, setReplayPlayer] = useState<ReplayPlayer | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
+  // The sidebar describes the replay's mode while one plays, the chosen one otherwise
+  const mode = getGameMode(replayPlayer ? replayPlayer.replay.settings.mode : gameMode);
+  const versus = mode.id === 'versus';
 
-  const startGame = () => {
+  // A puzzle brings its own pieces, so it plays from a fixed sequence whatever the generator setting
+  const startGame = (modeId: GameModeId = gameMode, puzzle: Puzzle | null = activePuzzle) => {
+    if (modeId === 'puzzle' && !puzzle) {
+      setShowPuzzles(true);
+      return;
+    }
+    const parsedSeed = Number.parseInt(seedInput, 10);
+    const puzzleMode = modeId === 'puzzle';
+    setGameMode(modeId);
+    setActivePuzzle(puzzleMode ? puzzle : null);
+    setSetup(prev => ({
+      id: (prev?.id ?? 0) + 1,
+      seed: Number.isNaN(parsedSeed) ? randomSeed() : parsedSeed >>> 0,
+      randomizer: puzzleMode ? 'sequence' : randomizer,
+      rotationSystem,
+      previewCount,
+      scoringTable,
+      handling,
+      mode: modeId,
+      ...(gravityChoice !== 'mode' && {
+        gravity: gravityChoice === 'custom' ? customGravityCurve(customGravity) : GRAVITY_CURVES.find(curve => curve.id === gravityChoice),
+      }),
+      ...(puzzleMode && puzzle && { puzzle }),
+    }));
     setScore(0);
     setLinesCleared(0);
     setLevel(1);
-    setNextPiecePreview(null);
-    // setIsAiActive(false); // Optionally reset AI state on new game
+    setPreviews(EMPTY_PREVIEWS);
+    setLastReplay(null);
+    setHintStats(EMPTY_HINT_STATS);
+    setLastRecord(null);
+    setLastResult(null);
+    setVersusWinner(null);
+    setLiveStats(null);
+    setReplayPlayer(null);
     setGameState(GameState.Playing);
   };
 
@@ -29,118 +158,323 @@ const App: React.FC = () => {
     if (gameState === GameState.Paused) setGameState(GameState.Playing);
   };
 
-  const handleGameOver = useCallback(() => {
+  // Unranked modes stay off the leaderboard; a puzzle counts an attempt instead
+  const handleGameOver = useCallback((result: GameResult) => {
+    if (getGameMode(result.mode).ranked) {
+      const record = createRecord(result, playerName.trim() || '플레이어');
+      setRecords(prev => addRecord(prev, record));
+      setLastRecord(record);
+    } else if (activePuzzle) {
+      setPuzzleProgress(prev => recordPuzzleAttempt(prev, activePuzzle.id, result.reason === 'goalReached'));
+    }
+    setLastResult(result);
+    setGameState(GameState.GameOver);
+  }, [playerName, setRecords, activePuzzle, setPuzzleProgress]);
+
+  const handleVersusOver = useCallback((result: GameResult, winner: number) => {
+    setVersusWinner(winner);
+    setLastResult(result);
     setGameState(GameState.GameOver);
   }, []);
 
-  const NextPieceDisplay: React.FC<{ piece: ActivePiece | null }> = ({ piece }) => {
-    if (!piece) return <div className="w-24 h-24 border border-gray-600 bg-gray-800 flex items-center justify-center text-xs rounded">미리보기 없음</div>;
-
-    const matrix = piece.matrices[piece.rotation];
-    let minR = matrix.length, maxR = -1, minC = matrix[0].length, maxC = -1;
-    let hasBlocks = false;
-    matrix.forEach((row, rIdx) => {
-        row.forEach((cell, cIdx) => {
-            if (cell !== 0) {
-                hasBlocks = true;
-                minR = Math.min(minR, rIdx);
-                maxR = Math.max(maxR, rIdx);
-                minC = Math.min(minC, cIdx);
-                maxC = Math.max(maxC, cIdx);
-            }
-        });
-    });
-
-    if (!hasBlocks) return <div className="w-24 h-24 border border-gray-600 bg-gray-800 flex items-center justify-center text-xs rounded">미리보기 없음</div>;
-
-
-    const pieceHeight = maxR - minR + 1;
-    const pieceWidth = maxC - minC + 1;
-    const displayGridSize = 4;
-
-
-    return (
-      <div className="grid grid-cols-4 gap-0.5 p-1 border border-gray-600 bg-gray-700 rounded" style={{width: '6rem', height: '6rem'}}>
-        {Array(displayGridSize * displayGridSize).fill(0).map((_, i) => {
-          const r = Math.floor(i / displayGridSize);
-          const c = Math.floor(i % displayGridSize);
-
-          const displayRowOffset = Math.floor((displayGridSize - pieceHeight) / 2);
-          const displayColOffset = Math.floor((displayGridSize - pieceWidth) / 2);
-
-          const matrixRow = r - displayRowOffset;
-          const matrixCol = c - displayColOffset;
-
-          let cellValue: CellValue = 0;
-          if (matrixRow >= 0 && matrixRow < pieceHeight && matrixCol >= 0 && matrixCol < pieceWidth) {
-             if(matrix[matrixRow + minR] && matrix[matrixRow + minR][matrixCol + minC] !== 0) {
-                cellValue = matrix[matrixRow + minR][matrixCol + minC];
-             }
-          }
-
-          const color = cellValue ? COLORS[cellValue] : 'transparent';
-          const hexColor = typeof color === 'number' ? `#${color.toString(16).padStart(6, '0')}` : color;
-          const style = { backgroundColor: hexColor };
-
-          return <div key={i} className="w-full h-full" style={style}></div>;
-        })}
-      </div>
-    );
+  const playPuzzle = (puzzle: Puzzle) => {
+    setShowPuzzles(false);
+    setEditingPuzzle(null);
+    startGame('puzzle', puzzle);
   };
 
+  // Saving under an id already listed replaces that puzzle
+  const savePuzzle = (puzzle: Puzzle) => {
+    setCustomPuzzles(prev => (prev.some(custom => custom.id === puzzle.id)
+      ? prev.map(custom => (custom.id === puzzle.id ? puzzle : custom))
+      : [...prev, puzzle]));
+    setEditingPuzzle(null);
+  };
+
+  const undoPiece = () => {
+    setUndoRequests(prev => prev + 1);
+    setGameState(GameState.Playing);
+  };
+
+  const downloadReplay = () => {
+    if (!lastReplay) return;
+    downloadJson(`tetris-replay-${lastReplay.settings.seed}.json`, lastReplay);
+  };
+
+  const loadReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const replay = parseReplay(await readFileAsText(file));
+      setReplayError(null);
+      setAiSelection(null);
+      setLiveStats(null);
+      setReplayPlayer(createReplayPlayer(replay));
+      setGameState(GameState.Replay);
+    } catch (error) {
+      setReplayError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || event.target instanceof HTMLInputElement) return;
+      if (!versus && (event.key === 'h' || event.key === 'H')) setHints(prev => ({ ...prev, enabled: !prev.enabled }));
+      if (event.key === 'v' || event.key === 'V') setViewResets(prev => prev + 1);
+      if (event.key === 'm' || event.key === 'M') setAudio(prev => ({ ...prev, muted: !prev.muted }));
+      const preset = CAMERA_PRESETS.find(p => p.key === event.key);
+      if (preset) {
+        setCamera(prev => ({ ...prev, preset: preset.id }));
+        setViewResets(prev => prev + 1); // Pressing the current preset's key also brings the view back
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [versus, setHints, setCamera, setAudio]);
+
+  const loadAiPreset = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      setAiPreset(parseWeightPreset(await readFileAsText(file)));
+      setAiPresetError(null);
+    } catch (error) {
+      setAiPresetError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const closeReplay = () => {
+    setReplayPlayer(null);
+    setGameState(GameState.Initial);
+  };
+
+  const handleScored = useCallback((labels: string[]) => {
+    setClearLabels(labels);
+    if (clearLabelTimeoutRef.current) clearTimeout(clearLabelTimeoutRef.current);
+    clearLabelTimeoutRef.current = window.setTimeout(() => setClearLabels([]), CLEAR_LABEL_DURATION);
+  }, []);
+
+  const changeCustomGravity = (text: string) => {
+    setCustomGravityInput(text);
+    try {
+      setCustomGravity(parseGravitySteps(text));
+      setCustomGravityError(null);
+    } catch (error) {
+      setCustomGravityError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const lastRank = lastRecord && leaderboardRank(records, lastRecord);
+  const gameOverTitle = versusWinner !== null
+    ? { text: `${versusWinner + 1}P 승리!`, className: 'text-green-400' }
+    : GAME_OVER_TITLES[lastResult?.reason ?? 'topOut'];
+  const elapsedMs = liveStats?.elapsedMs ?? 0;
 
   return (
     <div className="flex flex-col w-screen h-screen bg-gray-900 text-white p-2 md:p-4 gap-2 items-center justify-start overflow-hidden">
       {/* Global Title */}
       <h1 className="text-3xl md:text-4xl font-bold text-center w-full shrink-0 my-1 md:my-2">테트리스 AI 마스터 3D</h1>
 
-      {/* Next Piece Preview - Centered */}
-      <div className="flex flex-col items-center shrink-0 my-1 md:my-2">
-        <h3 className="text-lg md:text-xl font-semibold mb-1 md:mb-2 text-center">다음 조각:</h3>
-        <NextPieceDisplay piece={nextPiecePreview} />
-      </div>
+      {/* Hold slot and next queue - Centered; versus boards have their own */}
+      {!versus && (
+        <div className="flex flex-row items-start justify-center gap-6 shrink-0 my-1 md:my-2">
+          <div className="flex flex-col items-center">
+            <h3 className="text-lg md:text-xl font-semibold mb-1 md:mb-2 text-center">보관:</h3>
+            <PiecePreview piece={previews.hold} dimmed={previews.holdUsed} emptyLabel="비어 있음" theme={theme} />
+          </div>
+          <div className="flex flex-col items-center">
+            <h3 className="text-lg md:text-xl font-semibold mb-1 md:mb-2 text-center">다음 조각:</h3>
+            <div className="flex flex-row items-end gap-1">
+              {previews.next.length === 0 && <PiecePreview piece={null} theme={theme} />}
+              {previews.next.map((piece, i) => (
+                <PiecePreview key={i} piece={piece} size={i === 0 ? 'large' : 'small'} theme={theme} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
 
       {/* Container for Game and Sidebar */}
       <div className="flex flex-col md:flex-row w-full flex-grow items-stretch gap-4 min-h-0">
 
         {/* Game Area Wrapper */}
         <div className="flex-grow relative w-full md:w-3/4 min-h-0 order-1">
+          {showSettings && (
+            <SettingsPanel
+              handling={handling}
+              setHandling={setHandling}
+              ghost={ghost}
+              setGhost={setGhost}
+              showFps={showFps}
+              setShowFps={setShowFps}
+              theme={theme}
+              setThemeId={setThemeId}
+              customThemes={customThemes}
+              setCustomThemes={setCustomThemes}
+              effects={effects}
+              setEffects={setEffects}
+              audio={audio}
+              setAudio={setAudio}
+              onClose={() => setShowSettings(false)}
+            />
+          )}
+          {showPuzzles && (
+            <PuzzlePicker
+              customPuzzles={customPuzzles}
+              setCustomPuzzles={setCustomPuzzles}
+              progress={puzzleProgress}
+              onPlay={playPuzzle}
+              onEdit={puzzle => { setShowPuzzles(false); setEditingPuzzle({ puzzle }); }}
+              onClose={() => setShowPuzzles(false)}
+            />
+          )}
+          {editingPuzzle && (
+            <PuzzleEditor
+              puzzle={editingPuzzle.puzzle}
+              theme={theme}
+              onSave={savePuzzle}
+              onPlay={puzzle => { savePuzzle(puzzle); playPuzzle(puzzle); }}
+              onClose={() => { setEditingPuzzle(null); setShowPuzzles(true); }}
+            />
+          )}
+          {showStats && (
+            <StatsPage records={records} setRecords={setRecords} initialMode={lastRecord?.mode} onClose={() => setShowStats(false)} />
+          )}
+          {clearLabels.length > 0 && (
+            <div className="absolute top-4 inset-x-0 flex flex-col items-center pointer-events-none z-20">
+              {clearLabels.map(label => (
+                <p key={label} className="text-2xl md:text-3xl font-extrabold text-yellow-300 drop-shadow-lg">{label}</p>
+              ))}
+            </div>
+          )}
           {gameState === GameState.GameOver && (
             <div className="absolute inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center z-10">
-              <h2 className="text-3xl md:text-4xl font-bold text-red-500">게임 종료</h2>
-              <p className="text-lg md:text-xl mt-2">점수: {score}</p>
-              <button
-                onClick={startGame}
-                className="mt-6 md:mt-8 px-5 py-2 md:px-6 md:py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg md:text-xl font-semibold transition-colors"
-              >
-                다시 시작
-              </button>
+              <h2 className={`text-3xl md:text-4xl font-bold ${gameOverTitle.className}`}>{gameOverTitle.text}</h2>
+              <p className="text-sm md:text-base mt-1 text-gray-300">{getGameMode(lastResult?.mode).name}{activePuzzle && ` · ${activePuzzle.name}`}</p>
+              {lastRecord && isTimedMode(lastRecord.mode) && lastRecord.completed && (
+                <p className="text-2xl md:text-3xl mt-2 font-mono">{formatPreciseDuration(lastRecord.durationMs)}</p>
+              )}
+              {!versus && <p className="text-lg md:text-xl mt-2">점수: {score}</p>}
+              {setup && !setup.puzzle && (
+                <p className="text-sm md:text-base mt-1 text-gray-300">시드: {setup.seed} ({getGenerator(setup.randomizer).name})</p>
+              )}
+              {lastRecord && (
+                <p className="text-sm md:text-base mt-1 text-gray-300">
+                  {formatDuration(lastRecord.durationMs)} · {lastRecord.pps.toFixed(2)} PPS
+                  {lastRank && <span className="ml-2 text-yellow-300 font-semibold">{lastRank === 1 ? '새 최고 기록!' : `${lastRank}위`}</span>}
+                </p>
+              )}
+              {liveStats && (
+                <div className="mt-3 p-2 bg-gray-800 bg-opacity-80 rounded w-72">
+                  <LiveStatsPanel snapshot={liveStats} theme={theme} />
+                </div>
+              )}
+              {hintStats.suggested > 0 && (
+                <p className="text-sm md:text-base mt-1 text-gray-300">
+                  AI 제안 일치율: {Math.round((hintStats.matched / hintStats.suggested) * 100)}% ({hintStats.matched}/{hintStats.suggested})
+                </p>
+              )}
+              <div className="flex gap-3 mt-6 md:mt-8">
+                <button
+                  onClick={() => startGame()}
+                  className="px-5 py-2 md:px-6 md:py-3 bg-blue-600 hover:bg-blue-700 rounded-lg text-lg md:text-xl font-semibold transition-colors"
+                >
+                  다시 시작
+                </button>
+                {activePuzzle && lastResult?.reason !== 'goalReached' && (
+                  <button
+                    onClick={undoPiece}
+                    className="px-5 py-2 md:px-6 md:py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-lg md:text-xl font-semibold transition-colors"
+                  >
+                    되돌리기
+                  </button>
+                )}
+                {activePuzzle && (
+                  <button
+                    onClick={() => setShowPuzzles(true)}
+                    className="px-5 py-2 md:px-6 md:py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-lg md:text-xl font-semibold transition-colors"
+                  >
+                    퍼즐 선택
+                  </button>
+                )}
+                <button
+                  onClick={() => setGameState(GameState.Initial)}
+                  className="px-5 py-2 md:px-6 md:py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-lg md:text-xl font-semibold transition-colors"
+                >
+                  모드 선택
+                </button>
+                {lastReplay && (
+                  <button
+                    onClick={downloadReplay}
+                    className="px-5 py-2 md:px-6 md:py-3 bg-gray-600 hover:bg-gray-500 rounded-lg text-lg md:text-xl font-semibold transition-colors"
+                  >
+                    리플레이 저장
+                  </button>
+                )}
+              </div>
             </div>
           )}
           {gameState === GameState.Initial && (
-            <div className="absolute inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center z-10">
-              <button
-                onClick={startGame}
-                className="px-6 py-3 md:px-8 md:py-4 bg-green-600 hover:bg-green-700 rounded-lg text-xl md:text-2xl font-semibold transition-colors"
-              >
-                게임 시작
-              </button>
+            <div className="absolute inset-0 bg-black bg-opacity-75 flex flex-col items-center justify-center gap-4 p-4 z-10">
+              <h2 className="text-2xl md:text-3xl font-bold">모드 선택</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 w-full max-w-xl">
+                {GAME_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => (m.id === 'puzzle' ? setShowPuzzles(true) : startGame(m.id))}
+                    className={`flex flex-col items-start gap-1 p-3 md:p-4 bg-gray-800 hover:bg-gray-700 rounded-lg text-left transition-colors ${m.id === gameMode ? 'ring-2 ring-green-500' : ''}`}
+                  >
+                    <span className="text-lg md:text-xl font-semibold">{m.name}</span>
+                    <span className="text-sm text-gray-400">{m.description}</span>
+                  </button>
+                ))}
+              </div>
             </div>
           )}
-          <TetrisGame
+          {gameState === GameState.Replay && replayPlayer && (
+            <ReplayControls player={replayPlayer} onClose={closeReplay} />
+          )}
+          {versus ? (
+            <VersusGame
               gameState={gameState}
-              setGameState={setGameState}
-              score={score}
+              setup={setup}
+              onGameOver={handleVersusOver}
+              ghost={ghost}
+              showFps={showFps}
+              theme={theme}
+              camera={camera}
+              viewResets={viewResets}
+              effects={effects}
+              audio={audio}
+            />
+          ) : (
+            <TetrisGame
+              gameState={gameState}
+              setup={setup}
               setScore={setScore}
-              linesCleared={linesCleared}
               setLinesCleared={setLinesCleared}
-              level={level}
               setLevel={setLevel}
-              nextPiecePreview={nextPiecePreview}
-              setNextPiecePreview={setNextPiecePreview}
+              setPreviews={setPreviews}
               onGameOver={handleGameOver}
-              isAiActive={isAiActive}
+              onScored={handleScored}
+              onReplayReady={setLastReplay}
+              replayPlayer={replayPlayer}
+              aiAgent={aiAgent}
+              hints={hints}
+              ghost={ghost}
+              showFps={showFps}
+              theme={theme}
+              camera={camera}
+              viewResets={viewResets}
+              undoRequests={undoRequests}
+              effects={effects}
+              audio={audio}
+              setHintStats={setHintStats}
+              setLiveStats={setLiveStats}
             />
+          )}
         </div>
 
         {/* Sidebar Wrapper */}
@@ -153,38 +487,218 @@ const App: React.FC = () => {
               <button onClick={resumeGame} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-green-500 hover:bg-green-600 rounded text-white font-semibold transition-colors">계속하기</button>
             )}
             {(gameState === GameState.Playing || gameState === GameState.Paused || gameState === GameState.GameOver) && (
-               <button onClick={startGame} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-red-600 hover:bg-red-700 rounded text-white font-semibold transition-colors">게임 재시작</button>
+               <button onClick={() => startGame()} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-red-600 hover:bg-red-700 rounded text-white font-semibold transition-colors">게임 재시작</button>
             )}
+            {activePuzzle && gameState === GameState.Playing && (
+              <button onClick={undoPiece} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-gray-600 hover:bg-gray-500 rounded text-white font-semibold transition-colors">되돌리기</button>
+            )}
+            <button onClick={() => setShowSettings(true)} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-gray-600 hover:bg-gray-500 rounded text-white font-semibold transition-colors">설정</button>
+            <button onClick={() => setShowStats(true)} className="px-3 py-1.5 md:px-4 md:py-2 text-sm md:text-base bg-gray-600 hover:bg-gray-500 rounded text-white font-semibold transition-colors">통계</button>
           </div>
 
-          <div className="flex items-center justify-start gap-3 mt-2 md:mt-1"> {/* Changed justify-between to justify-start and added gap-3 */}
-            <label htmlFor="ai-toggle" className="text-sm md:text-base text-gray-300">AI 위임:</label>
+          <div className="flex flex-col gap-1">
             <button
-              id="ai-toggle"
-              onClick={() => setIsAiActive(prev => !prev)}
-              disabled={gameState !== GameState.Playing && gameState !== GameState.Paused}
-              className={`w-20 px-3 py-1 rounded text-white font-semibold text-sm transition-colors text-center ${ // Removed text-left, added text-center
-                isAiActive ? 'bg-blue-500 hover:bg-blue-600' : 'bg-gray-600 hover:bg-gray-500'
-              } ${ (gameState !== GameState.Playing && gameState !== GameState.Paused) ? 'opacity-50 cursor-not-allowed' : ''}`}
-              aria-pressed={isAiActive}
+              onClick={() => replayFileInputRef.current?.click()}
+              disabled={gameState === GameState.Playing}
+              className={`px-3 py-1.5 text-sm md:text-base bg-gray-600 hover:bg-gray-500 rounded text-white font-semibold transition-colors ${gameState === GameState.Playing ? 'opacity-50 cursor-not-allowed' : ''}`}
             >
-              {isAiActive ? 'ON' : 'OFF'}
+              리플레이 불러오기
             </button>
+            <input ref={replayFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadReplay} />
+            {replayError && <p className="text-xs text-red-400">{replayError}</p>}
+          </div>
+
+          {/* Versus boards choose their AI each */}
+          {!versus && (
+            <div className="flex flex-col gap-1 mt-2 md:mt-1">
+              <label className="flex items-center justify-between gap-2 text-sm md:text-base text-gray-300">
+                <span>AI 위임:</span>
+                <select
+                  value={aiSelection ?? 'off'}
+                  onChange={e => setAiSelection(e.target.value === 'off' ? null : e.target.value as AiAgentId | 'preset')}
+                  disabled={gameState !== GameState.Playing && gameState !== GameState.Paused}
+                  className={`bg-gray-700 rounded px-2 py-1 text-white ${aiAgent ? 'ring-2 ring-blue-500' : ''} ${(gameState !== GameState.Playing && gameState !== GameState.Paused) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  <option value="off">끄기</option>
+                  {AI_AGENTS.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                  {aiPreset && <option value="preset">프리셋: {aiPreset.name}</option>}
+                </select>
+              </label>
+              <button
+                onClick={() => aiPresetFileInputRef.current?.click()}
+                className="self-end text-xs text-blue-300 hover:text-blue-200"
+              >
+                AI 가중치 프리셋 불러오기
+              </button>
+              <input ref={aiPresetFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadAiPreset} />
+              {aiPresetError && <p className="text-xs text-red-400">{aiPresetError}</p>}
+            </div>
+          )}
+
+          {/* Versus boards never show hints */}
+          {!versus && (
+            <div className="flex flex-col gap-1 text-sm text-gray-300">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={hints.enabled} onChange={e => setHints(prev => ({ ...prev, enabled: e.target.checked }))} />
+                AI 힌트 표시 (H)
+              </label>
+              <label className={`flex items-center gap-2 ${hints.enabled ? '' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={hints.showTopThree}
+                  disabled={!hints.enabled}
+                  onChange={e => setHints(prev => ({ ...prev, showTopThree: e.target.checked }))}
+                />
+                상위 3개 후보와 평가 점수
+              </label>
+            </div>
+          )}
+
+          <div className="flex flex-col gap-1 text-sm md:text-base text-gray-300">
+            <label className="flex items-center justify-between gap-2">
+              <span>시점:</span>
+              <select
+                value={camera.preset}
+                onChange={e => setCamera(prev => ({ ...prev, preset: e.target.value as CameraPresetId }))}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                {CAMERA_PRESETS.map(p => <option key={p.id} value={p.id}>{p.key}. {p.name}</option>)}
+              </select>
+            </label>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={camera.followPiece} onChange={e => setCamera(prev => ({ ...prev, followPiece: e.target.checked }))} />
+                조각 따라가기
+              </label>
+              <button onClick={() => setViewResets(prev => prev + 1)} className="text-xs text-blue-300 hover:text-blue-200">시점 초기화 (V)</button>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-2 text-sm md:text-base text-gray-300">
+            <label className="flex items-center justify-between gap-2">
+              <span>블록 생성기:</span>
+              <select
+                value={randomizer}
+                onChange={e => setRandomizer(e.target.value as RandomizerKind)}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                {GENERATORS.map(g => <option key={g.kind} value={g.kind}>{g.name}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>회전 방식:</span>
+              <select
+                value={rotationSystem}
+                onChange={e => setRotationSystem(e.target.value as RotationSystem)}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                {ROTATION_SYSTEMS.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>점수 규칙:</span>
+              <select
+                value={scoringTable}
+                onChange={e => setScoringTable(e.target.value as ScoringTableId)}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                {SCORING_TABLES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>중력 곡선:</span>
+              <select
+                value={gravityChoice}
+                onChange={e => setGravityChoice(e.target.value as GravityCurveId | 'mode')}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                <option value="mode">모드 기본</option>
+                {GRAVITY_CURVES.map(curve => <option key={curve.id} value={curve.id}>{curve.name}</option>)}
+                <option value="custom">사용자 정의</option>
+              </select>
+            </label>
+            {gravityChoice === 'custom' && (
+              <label className="flex flex-col gap-1 text-sm">
+                <span>레벨:G (쉼표로 구분)</span>
+                <input
+                  type="text"
+                  value={customGravityInput}
+                  onChange={e => changeCustomGravity(e.target.value)}
+                  className="bg-gray-700 rounded px-2 py-1 text-white font-mono"
+                />
+                {customGravityError && <span className="text-xs text-red-400">{customGravityError}</span>}
+              </label>
+            )}
+            <label className="flex items-center justify-between gap-2">
+              <span>미리보기 개수:</span>
+              <select
+                value={previewCount}
+                onChange={e => setPreviewCount(Number(e.target.value))}
+                className="bg-gray-700 rounded px-2 py-1 text-white"
+              >
+                {Array.from({ length: MAX_PREVIEW_COUNT }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>이름:</span>
+              <input
+                type="text"
+                value={playerName}
+                maxLength={20}
+                onChange={e => setPlayerName(e.target.value)}
+                className="w-28 bg-gray-700 rounded px-2 py-1 text-white"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              <span>시드:</span>
+              <input
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                onChange={e => setSeedInput(e.target.value)}
+                placeholder="무작위"
+                className="w-28 bg-gray-700 rounded px-2 py-1 text-white"
+              />
+            </label>
+            <p className="text-xs text-gray-500">새 게임부터 적용됩니다</p>
           </div>
 
           <div className="w-full text-sm md:text-lg mt-2 md:mt-1">
-            <p><span className="font-semibold">점수:</span> {score}</p>
-            <p><span className="font-semibold">줄 수:</span> {linesCleared}</p>
-            <p><span className="font-semibold">레벨:</span> {level}</p>
+            <p><span className="font-semibold">모드:</span> {mode.name}</p>
+            {setup?.puzzle && !replayPlayer && (
+              <>
+                <p><span className="font-semibold">퍼즐:</span> {setup.puzzle.name}</p>
+                <p><span className="font-semibold">목표:</span> {describeGoal(setup.puzzle.goal)}</p>
+              </>
+            )}
+            {!versus && (
+              <>
+                <p><span className="font-semibold">점수:</span> {score}</p>
+                <p><span className="font-semibold">줄 수:</span> {linesCleared}{mode.lineGoal !== null && ` / ${mode.lineGoal}`}</p>
+                {mode.timeLimit !== null && (
+                  <p><span className="font-semibold">남은 시간:</span> {formatDuration(Math.max(0, mode.timeLimit - elapsedMs))}</p>
+                )}
+                <p>
+                  <span className="font-semibold">레벨:</span> {level}
+                  {mode.gravity && <span className="ml-2 text-sm text-gray-400">{formatGravity(gravityAt((replayPlayer ? replayPlayer.replay.settings : setup)?.gravity ?? mode.gravityCurve, level))}</span>}
+                </p>
+              </>
+            )}
           </div>
+          {liveStats && <LiveStatsPanel snapshot={liveStats} theme={theme} />}
 
           <div className="text-xs md:text-sm text-gray-400 w-full mt-2 md:mt-3">
               <h3 className="font-semibold text-gray-300 md:text-gray-200">조작법:</h3>
               <p>화살표: 이동</p>
-              <p>위 화살표 / X: 회전</p>
+              <p>위 화살표 / X: 시계 방향 회전</p>
+              <p>Z / Ctrl: 반시계 방향 회전</p>
+              <p>C / Shift: 보관</p>
               <p>스페이스바: 빠른 내림</p>
+              {!versus && <p>H: AI 힌트 켜기/끄기</p>}
               <p>마우스: 카메라 회전</p>
-              {isAiActive && <p className="text-yellow-400 mt-1">AI 위임 활성됨 (수동 조작 비활성화)</p>}
+              <p>1–5: 시점 선택 / V: 시점 초기화</p>
+              <p>M: 소리 켜기/끄기</p>
+              {aiAgent && <p className="text-yellow-400 mt-1">AI 위임 활성됨 (수동 조작 비활성화)</p>}
           </div>
         </div>
       </div>
@@ -0,0 +1,156 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { RngState, randomSeed, shuffle } from '../engine/random';
+import { AiAgent, AiAgentConfig, AiAgentId, AiPlacement, AiWeights } from './types';
+import { RotationSystem } from '../engine/rotation';
+import { Placement, candidatePieces, place } from './board';
+import { ReachablePlacement, findReachablePlacements } from './reachability';
+import { DEFAULT_GREEDY_WEIGHTS, DellacherieWeights, EL_TETRIS_WEIGHTS, GreedyWeights, evaluateDellacherie, evaluateGreedy } from './evaluate';
+
+type Evaluator = (placement: Placement) => number;
+
+interface ScoredPlacement {
+  placement: Placement | null; // null for a lock-out
+  reachable: ReachablePlacement;
+  score: number;
+}
+
+// Best resting position for one piece. Lock-outs score -Infinity but are still returned when
+// nothing else fits, so the agent always has somewhere to put the piece.
+const bestPlacement = (
+  piece: ActivePiece, board: BoardMatrix, system: RotationSystem, instantGravity: boolean, evaluate: Evaluator,
+): ScoredPlacement | null => {
+  let best: ScoredPlacement | null = null;
+  for (const reachable of findReachablePlacements(piece, board, system, instantGravity)) {
+    const placement = place(board, reachable.piece);
+    const score = placement ? evaluate(placement) : -Infinity;
+    if (!best || score > best.score) best = { placement, reachable, score };
+  }
+  return best;
+};
+
+const toAiPlacement = ({ piece, path }: ReachablePlacement, useHold: boolean, score: number): AiPlacement => ({
+  piece,
+  useHold,
+  score,
+  path: useHold ? ['hold', ...path] : path,
+});
+
+const byScore = (a: AiPlacement, b: AiPlacement) => b.score - a.score;
+
+const defineAgent = (id: AiAgentId, name: string, rank: AiAgent['rank']): AiAgent => ({
+  id,
+  name,
+  rank,
+  choose: (input, deadline) => rank(input, 1, deadline)[0] ?? null,
+});
+
+// Places the current piece, or the one holding brings in, wherever the evaluator likes best
+const createOnePieceAgent = (id: AiAgentId, name: string, evaluate: Evaluator): AiAgent =>
+  defineAgent(id, name, (input, count) =>
+    candidatePieces(input)
+      .flatMap(option => findReachablePlacements(option.piece, input.board, input.rotationSystem, input.instantGravity).map(reachable => {
+        const placement = place(input.board, reachable.piece);
+        return toAiPlacement(reachable, option.useHold, placement ? evaluate(placement) : -Infinity);
+      }))
+      .sort(byScore)
+      .slice(0, count));
+
+export const createGreedyAgent = (weights: GreedyWeights = DEFAULT_GREEDY_WEIGHTS): AiAgent =>
+  createOnePieceAgent('greedy', '그리디', placement => evaluateGreedy(placement, weights));
+
+export const createElTetrisAgent = (weights: DellacherieWeights = EL_TETRIS_WEIGHTS): AiAgent =>
+  createOnePieceAgent('eltetris', 'El-Tetris', placement => evaluateDellacherie(placement, weights));
+
+// Scores each placement of the current piece by the best follow-up placement of the next one.
+// Candidates are searched best-first by their own score, so running out of time still leaves
+// the most promising ones compared.
+export const createLookaheadAgent = (weights: DellacherieWeights = EL_TETRIS_WEIGHTS): AiAgent => {
+  const evaluate: Evaluator = placement => evaluateDellacherie(placement, weights);
+  return defineAgent('lookahead', '2수 앞보기', (input, count, deadline = Infinity) => {
+    const candidates = candidatePieces(input).flatMap(option =>
+      findReachablePlacements(option.piece, input.board, input.rotationSystem, input.instantGravity).map(reachable => {
+        const placement = place(input.board, reachable.piece);
+        return { option, reachable, placement, score: placement ? evaluate(placement) : -Infinity };
+      }),
+    );
+    candidates.sort((a, b) => b.score - a.score);
+
+    const searched: AiPlacement[] = [];
+    for (const { option, reachable, placement } of candidates) {
+      if (searched.length >= count && performance.now() > deadline) break;
+      let score = -Infinity;
+      if (placement) {
+        const followUp = option.next ? bestPlacement(option.next, placement.board, input.rotationSystem, input.instantGravity, evaluate) : null;
+        // Lines cleared by the first piece would otherwise be invisible to the second evaluation
+        score = followUp
+          ? followUp.score + placement.linesCleared * placement.erodedCells * weights.erodedCells
+          : evaluate(placement);
+      }
+      searched.push(toAiPlacement(reachable, option.useHold, score));
+    }
+    return searched.sort(byScore).slice(0, count);
+  });
+};
+
+// Baseline for benchmarks: any placements that don't lock out, chosen uniformly
+export const createRandomAgent = (seed: number = randomSeed()): AiAgent => {
+  let rng: RngState = seed >>> 0;
+  return defineAgent('random', '무작위', (input, count) => {
+    const options = candidatePieces(input).flatMap(option =>
+      findReachablePlacements(option.piece, input.board, input.rotationSystem, input.instantGravity)
+        .filter(reachable => place(input.board, reachable.piece))
+        .map(reachable => toAiPlacement(reachable, option.useHold, 0)),
+    );
+    let shuffled: AiPlacement[];
+    [shuffled, rng] = shuffle(options, rng);
+    return shuffled.slice(0, count);
+  });
+};
+
+export interface AiAgentInfo {
+  id: AiAgentId;
+  name: string;
+  defaultWeights?: AiWeights; // Set for agents whose evaluation weights can be tuned
+  create: (config: AiAgentConfig) => AiAgent;
+}
+
+export const AI_AGENTS: AiAgentInfo[] = [
+  {
+    id: 'greedy',
+    name: '그리디',
+    defaultWeights: DEFAULT_GREEDY_WEIGHTS,
+    create: config => createGreedyAgent(config.weights as GreedyWeights | undefined),
+  },
+  {
+    id: 'eltetris',
+    name: 'El-Tetris',
+    defaultWeights: EL_TETRIS_WEIGHTS,
+    create: config => createElTetrisAgent(config.weights as DellacherieWeights | undefined),
+  },
+  {
+    id: 'lookahead',
+    name: '2수 앞보기',
+    defaultWeights: EL_TETRIS_WEIGHTS,
+    create: config => createLookaheadAgent(config.weights as DellacherieWeights | undefined),
+  },
+  { id: 'random', name: '무작위', create: config => createRandomAgent(config.seed) },
+];
+
+export const getAgentInfo = (id: AiAgentId): AiAgentInfo => {
+  const entry = AI_AGENTS.find(agent => agent.id === id);
+  if (!entry) throw new Error(`Unknown AI agent: ${id}`);
+  return entry;
+};
+
+export const createAgent = (config: AiAgentConfig): AiAgent => getAgentInfo(config.id).create(config);
+
+// Agents are kept per config, so stateful ones (the random baseline's RNG) carry on between decisions
+export const getCachedAgent = (cache: Map<string, AiAgent>, config: AiAgentConfig): AiAgent => {
+  const key = JSON.stringify(config);
+  let agent = cache.get(key);
+  if (!agent) {
+    agent = createAgent(config);
+    cache.set(key, agent);
+  }
+  return agent;
+};
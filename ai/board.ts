@@ -0,0 +1,151 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { BOARD_HEIGHT, BOARD_WIDTH } from '../constants';
+import { createPiece, findFullRows, isAboveBoard, mergePiece, removeRows } from '../engine/board';
+import { EngineState } from '../engine/types';
+import { getUpcomingPieces, hasInstantGravity } from '../engine/engine';
+import { AiInput } from './types';
+
+// Board analysis shared by the agents
+
+export interface Placement {
+  piece: ActivePiece; // At its resting position
+  board: BoardMatrix; // After locking and clearing lines
+  linesCleared: number;
+  erodedCells: number; // Cells of the placed piece that disappeared with the cleared lines
+}
+
+// Places a piece that is already at its resting position. Returns null for a lock-out.
+export const place = (board: BoardMatrix, piece: ActivePiece): Placement | null => {
+  if (isAboveBoard(piece)) return null;
+  const merged = mergePiece(board, piece);
+  const fullRows = findFullRows(merged);
+  const matrix = piece.matrices[piece.rotation];
+  let erodedCells = 0;
+  matrix.forEach((row, r) => {
+    row.forEach(cell => {
+      if (cell !== 0 && fullRows.includes(piece.position.row + r)) erodedCells++;
+    });
+  });
+  return { piece, board: removeRows(merged, fullRows), linesCleared: fullRows.length, erodedCells };
+};
+
+export const columnHeights = (board: BoardMatrix): number[] => {
+  const heights = Array(BOARD_WIDTH).fill(0);
+  for (let c = 0; c < BOARD_WIDTH; c++) {
+    for (let r = 0; r < BOARD_HEIGHT; r++) {
+      if (board[r][c] !== 0) {
+        heights[c] = BOARD_HEIGHT - r;
+        break;
+      }
+    }
+  }
+  return heights;
+};
+
+export const countHoles = (board: BoardMatrix): number => {
+  let holes = 0;
+  for (let c = 0; c < BOARD_WIDTH; c++) {
+    let blockReached = false;
+    for (let r = 0; r < BOARD_HEIGHT; r++) {
+      if (board[r][c] !== 0) blockReached = true;
+      else if (blockReached) holes++;
+    }
+  }
+  return holes;
+};
+
+export const bumpiness = (heights: number[]): number => {
+  let total = 0;
+  for (let c = 0; c < heights.length - 1; c++) total += Math.abs(heights[c] - heights[c + 1]);
+  return total;
+};
+
+// Filled/empty changes along each row; the walls count as filled
+export const rowTransitions = (board: BoardMatrix): number => {
+  let transitions = 0;
+  for (const row of board) {
+    let previousFilled = true;
+    for (const cell of row) {
+      if ((cell !== 0) !== previousFilled) transitions++;
+      previousFilled = cell !== 0;
+    }
+    if (!previousFilled) transitions++;
+  }
+  return transitions;
+};
+
+// Filled/empty changes down each column; the floor counts as filled
+export const columnTransitions = (board: BoardMatrix): number => {
+  let transitions = 0;
+  for (let c = 0; c < BOARD_WIDTH; c++) {
+    let previousFilled = false;
+    for (let r = 0; r < BOARD_HEIGHT; r++) {
+      const filled = board[r][c] !== 0;
+      if (filled !== previousFilled) transitions++;
+      previousFilled = filled;
+    }
+    if (!previousFilled) transitions++;
+  }
+  return transitions;
+};
+
+// Sum over wells of 1 + 2 + ... + depth, a well cell being empty with both neighbours filled
+export const wellSums = (board: BoardMatrix): number => {
+  let total = 0;
+  for (let c = 0; c < BOARD_WIDTH; c++) {
+    let depth = 0;
+    for (let r = 0; r < BOARD_HEIGHT; r++) {
+      const leftFilled = c === 0 || board[r][c - 1] !== 0;
+      const rightFilled = c === BOARD_WIDTH - 1 || board[r][c + 1] !== 0;
+      if (board[r][c] === 0 && leftFilled && rightFilled) {
+        depth++;
+        total += depth;
+      } else if (board[r][c] !== 0) {
+        depth = 0;
+      }
+    }
+  }
+  return total;
+};
+
+// Height of the piece's middle row above the floor, in rows
+export const landingHeight = (piece: ActivePiece): number => {
+  const matrix = piece.matrices[piece.rotation];
+  const rows = matrix.map((row, r) => (row.some(cell => cell !== 0) ? r : -1)).filter(r => r >= 0);
+  const top = piece.position.row + rows[0];
+  const bottom = piece.position.row + rows[rows.length - 1];
+  return BOARD_HEIGHT - (top + bottom) / 2 - 0.5;
+};
+
+// What the agent gets to see of a game in progress; only call with an active piece
+export const aiInputFromEngine = (state: EngineState): AiInput => ({
+  board: state.board,
+  current: state.current!,
+  queue: getUpcomingPieces(state),
+  hold: state.hold,
+  canHold: !state.holdUsed,
+  rotationSystem: state.options.rotationSystem,
+  instantGravity: hasInstantGravity(state),
+});
+
+// Rotations of symmetric pieces (O, and I/S/Z in some states) can cover the same cells, so
+// placements are compared by the cells they fill
+export const cellsKey = (piece: ActivePiece): string => {
+  const cells: number[] = [];
+  piece.matrices[piece.rotation].forEach((row, r) => row.forEach((cell, c) => {
+    if (cell !== 0) cells.push((piece.position.row + r + 8) * 32 + piece.position.col + c + 8);
+  }));
+  return cells.sort((a, b) => a - b).join(',');
+};
+
+// The pieces an agent may place now: the current one, and the one holding would bring in
+export const candidatePieces = (input: AiInput): { piece: ActivePiece; useHold: boolean; next: ActivePiece | null }[] => {
+  const options = [{ piece: input.current, useHold: false, next: input.queue[0] ?? null }];
+  if (!input.canHold) return options;
+  const fromHold = input.hold ?? input.queue[0];
+  if (!fromHold || fromHold.shape.id === input.current.shape.id) return options;
+  // After holding into an empty slot the queue advances by one
+  const next = input.hold ? input.queue[0] ?? null : input.queue[1] ?? null;
+  options.push({ piece: createPiece(fromHold.shape), useHold: true, next });
+  return options;
+};
@@ -0,0 +1,95 @@
+import { AiAgent, AiAgentConfig, AiInput, AiPlacement } from './types';
+import { getCachedAgent } from './agents';
+
+// Asks an agent for placements, in a Web Worker when the browser has them so a slow search
+// never stalls rendering. Without workers (or if the worker fails) the same search runs on the
+// main thread instead.
+
+export interface AiRequestOptions {
+  timeBudget: number; // ms
+  count: number; // Placements wanted, best first
+}
+
+export interface AiWorkerRequest extends AiRequestOptions {
+  id: number;
+  agent: AiAgentConfig;
+  input: AiInput;
+}
+
+export interface AiWorkerResponse {
+  id: number;
+  placements: AiPlacement[];
+}
+
+export interface AiClient {
+  // Only the latest request is answered; a new request or cancel() drops the pending one
+  request: (agent: AiAgentConfig, input: AiInput, options: AiRequestOptions, onResult: (placements: AiPlacement[]) => void) => void;
+  cancel: () => void;
+  dispose: () => void;
+}
+
+const startWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+};
+
+export const createAiClient = (): AiClient => {
+  let worker = startWorker();
+  const fallbackAgents = new Map<string, AiAgent>();
+  let nextId = 1;
+  let pending: { request: AiWorkerRequest; onResult: (placements: AiPlacement[]) => void } | null = null;
+  let fallbackTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const runOnMainThread = () => {
+    // Deferred so request() never blocks its caller and cancel() can still drop it
+    fallbackTimeout = setTimeout(() => {
+      fallbackTimeout = null;
+      if (!pending) return;
+      const { request: { agent: config, input, timeBudget, count }, onResult } = pending;
+      pending = null;
+      onResult(getCachedAgent(fallbackAgents, config).rank(input, count, performance.now() + timeBudget));
+    }, 0);
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<AiWorkerResponse>) => {
+      if (!pending || event.data.id !== pending.request.id) return; // Answer to a cancelled request
+      const { onResult } = pending;
+      pending = null;
+      onResult(event.data.placements);
+    };
+    worker.onerror = () => {
+      worker?.terminate();
+      worker = null;
+      if (pending) runOnMainThread();
+    };
+  }
+
+  const cancel = () => {
+    pending = null;
+    if (fallbackTimeout !== null) clearTimeout(fallbackTimeout);
+    fallbackTimeout = null;
+  };
+
+  return {
+    request: (agent, input, options, onResult) => {
+      cancel();
+      pending = { request: { id: nextId++, agent, input, ...options }, onResult };
+      if (worker) {
+        worker.postMessage(pending.request);
+      } else {
+        runOnMainThread();
+      }
+    },
+    cancel,
+    dispose: () => {
+      cancel();
+      worker?.terminate();
+      worker = null;
+    },
+  };
+};
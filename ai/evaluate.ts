@@ -0,0 +1,55 @@
+import { Placement, bumpiness, columnHeights, columnTransitions, countHoles, landingHeight, rowTransitions, wellSums } from './board';
+
+// Board evaluation functions: a weighted sum of features of the board after a placement.
+// Weights are plain objects so they can be tuned offline and loaded as presets.
+
+export interface GreedyWeights {
+  lines: number;
+  height: number; // Per unit of aggregate column height
+  holes: number;
+  bumpiness: number;
+}
+
+// The heuristic the AI shipped with
+export const DEFAULT_GREEDY_WEIGHTS: GreedyWeights = {
+  lines: 5000,
+  height: -10,
+  holes: -75,
+  bumpiness: -3,
+};
+
+export const evaluateGreedy = (placement: Placement, weights: GreedyWeights = DEFAULT_GREEDY_WEIGHTS): number => {
+  const heights = columnHeights(placement.board);
+  const aggregateHeight = heights.reduce((sum, h) => sum + h, 0);
+  return placement.linesCleared * weights.lines
+    + aggregateHeight * weights.height
+    + countHoles(placement.board) * weights.holes
+    + bumpiness(heights) * weights.bumpiness;
+};
+
+// Pierre Dellacherie's features, weighted as in El-Tetris (Islam El-Ashi, 2011)
+export interface DellacherieWeights {
+  landingHeight: number;
+  erodedCells: number; // Lines cleared × cells of the piece removed by them
+  rowTransitions: number;
+  columnTransitions: number;
+  holes: number;
+  wells: number;
+}
+
+export const EL_TETRIS_WEIGHTS: DellacherieWeights = {
+  landingHeight: -4.500158825082766,
+  erodedCells: 3.4181268101392694,
+  rowTransitions: -3.2178882868487753,
+  columnTransitions: -9.348695305445199,
+  holes: -7.899265427351652,
+  wells: -3.3855972247263626,
+};
+
+export const evaluateDellacherie = (placement: Placement, weights: DellacherieWeights = EL_TETRIS_WEIGHTS): number =>
+  landingHeight(placement.piece) * weights.landingHeight
+  + placement.linesCleared * placement.erodedCells * weights.erodedCells
+  + rowTransitions(placement.board) * weights.rowTransitions
+  + columnTransitions(placement.board) * weights.columnTransitions
+  + countHoles(placement.board) * weights.holes
+  + wellSums(placement.board) * weights.wells;
@@ -0,0 +1,39 @@
+import { AiAgentConfig, AiAgentId, AiWeights } from './types';
+import { AI_AGENTS } from './agents';
+
+// Tuned evaluation weights, written by `npm run ai:tune` and loadable in the game's sidebar
+
+export const PRESET_VERSION = 1;
+
+export interface WeightPreset {
+  version: number;
+  name: string;
+  agent: AiAgentId; // Agent the weights were tuned for
+  weights: AiWeights;
+  fitness?: number; // Mean lines per game during tuning
+  createdAt: string; // ISO date
+}
+
+export const presetConfig = (preset: WeightPreset): AiAgentConfig => ({ id: preset.agent, weights: preset.weights });
+
+export const parseWeightPreset = (json: string): WeightPreset => {
+  let data: Partial<WeightPreset>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('프리셋 파일을 읽을 수 없습니다');
+  }
+  if (data.version !== PRESET_VERSION) {
+    throw new Error(`지원하지 않는 프리셋 버전입니다: ${data.version}`);
+  }
+  const info = AI_AGENTS.find(agent => agent.id === data.agent);
+  if (!info?.defaultWeights) {
+    throw new Error(`가중치를 조정할 수 없는 에이전트입니다: ${data.agent}`);
+  }
+  const weights = data.weights as Record<string, unknown> | undefined;
+  const valid = !!weights && Object.keys(info.defaultWeights).every(key => Number.isFinite(weights[key]));
+  if (!valid || typeof data.name !== 'string') {
+    throw new Error('프리셋 파일 형식이 올바르지 않습니다');
+  }
+  return data as WeightPreset;
+};
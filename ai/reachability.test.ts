@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { findReachablePlacements } from './reachability';
+import { applyInput, createGame } from '../engine/engine';
+import { EngineEvent, EngineInput, EngineState } from '../engine/types';
+import { createSequenceGenerator } from '../engine/randomizer';
+import { detectTSpin } from '../engine/scoring';
+import { boardFromRows } from '../puzzles';
+
+// A T-spin double slot that is open from above, so a plain hard drop reaches some of its cells too
+const board = boardFromRows(['GGGG......', 'GGG...GGGG', 'GGGG.GGGGG']);
+const game: EngineState = createGame({
+  seed: 1,
+  lineClearDelay: 0,
+  generator: createSequenceGenerator(['T', 'O']),
+  puzzle: { id: 'test', name: '', description: '', board, pieces: ['T', 'O'], goal: { type: 'clearLines', lines: 100 } },
+});
+
+const follow = (path: EngineInput[]): EngineEvent[] =>
+  path.reduce<{ state: EngineState; events: EngineEvent[] }>(({ state, events }, input) => {
+    const step = applyInput(state, input);
+    return { state: step.state, events: [...events, ...step.events] };
+  }, { state: game, events: [] }).events;
+
+describe('findReachablePlacements', () => {
+  const placements = findReachablePlacements(game.current!, game.board, 'srs');
+
+  it('finds a path the engine follows to each resting position', () => {
+    for (const { piece, path } of placements) {
+      const locked = follow(path).find(event => event.type === 'pieceLocked');
+      expect(locked).toEqual({ type: 'pieceLocked', piece });
+    }
+  });
+
+  it('ends a T in a spin position with the rotation that seats it', () => {
+    const spins = placements.filter(({ piece }) => detectTSpin(piece, board, 0) !== 'none');
+    expect(spins.length).toBeGreaterThan(1);
+    for (const { path } of spins) {
+      expect(path.slice(-2, -1)).toEqual([expect.stringMatching(/^rotate/)]);
+      expect(follow(path)).toContainEqual(expect.objectContaining({ type: 'linesCleared', tSpin: expect.not.stringMatching('none') }));
+    }
+  });
+});
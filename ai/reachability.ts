@@ -0,0 +1,93 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { EngineInput } from '../engine/types';
+import { checkCollision, getDropRow } from '../engine/board';
+import { RotationSystem, rotatePiece } from '../engine/rotation';
+import { cellsKey } from './board';
+
+// Every resting position a piece can reach from where it is, found by a breadth-first search
+// over (row, col, rotation) using the engine's own movement and rotation rules. That covers
+// tucks under overhangs and kicks into T-spin slots, not just rotate-shift-drop placements.
+// Under 20G the piece drops after every move, as it does in the engine.
+// A T's path keeps a final rotation where one exists, since the engine only counts a
+// T-spin when the piece was rotated into place and the hard drop does not move it.
+
+export interface ReachablePlacement {
+  piece: ActivePiece; // At its resting position
+  path: EngineInput[]; // Inputs from the starting position, ending with the hardDrop that locks it
+}
+
+const MOVES: EngineInput[] = ['moveLeft', 'moveRight', 'rotateCW', 'rotateCCW', 'softDrop'];
+
+const stateKey = (piece: ActivePiece): number =>
+  (piece.rotation * 64 + piece.position.row + 8) * 32 + piece.position.col + 8;
+
+const applyMove = (piece: ActivePiece, move: EngineInput, board: BoardMatrix, system: RotationSystem): ActivePiece | null => {
+  const { row, col } = piece.position;
+  switch (move) {
+    case 'moveLeft':
+    case 'moveRight': {
+      const position = { row, col: col + (move === 'moveLeft' ? -1 : 1) };
+      return checkCollision(piece, position, board) ? null : { ...piece, position };
+    }
+    case 'softDrop': {
+      const position = { row: row + 1, col };
+      return checkCollision(piece, position, board) ? null : { ...piece, position };
+    }
+    case 'rotateCW':
+    case 'rotateCCW':
+      return rotatePiece(piece, move === 'rotateCW' ? 1 : -1, board, system)?.piece ?? null;
+    default:
+      return null;
+  }
+};
+
+const drop = (piece: ActivePiece, board: BoardMatrix): ActivePiece =>
+  ({ ...piece, position: { row: getDropRow(piece, board), col: piece.position.col } });
+
+const isRotation = (move: EngineInput | null): boolean => move === 'rotateCW' || move === 'rotateCCW';
+
+// Resting positions with the shortest input path to each of them, or for a T the shortest
+// path that ends in a rotation when there is one
+export const findReachablePlacements = (
+  spawned: ActivePiece, board: BoardMatrix, system: RotationSystem, instantGravity = false,
+): ReachablePlacement[] => {
+  if (checkCollision(spawned, spawned.position, board)) return [];
+  const start = instantGravity ? drop(spawned, board) : spawned;
+  const visited = new Set<number>([stateKey(start) * 2]);
+  // Nodes keep a link to the node they came from; paths are only rebuilt for the results.
+  // spun: the piece got here by a rotation it did not fall from, so the engine keeps its kick
+  const nodes: { piece: ActivePiece; parent: number; move: EngineInput | null; spun: boolean }[] = [
+    { piece: start, parent: -1, move: null, spun: false },
+  ];
+  const resting = new Map<string, { piece: ActivePiece; node: number; spun: boolean }>();
+  const spins = spawned.shape.id === 'T';
+
+  for (let i = 0; i < nodes.length; i++) {
+    const { piece } = nodes[i];
+    // Hard-dropping from here is one more way to finish; nodes come out shortest path first
+    const dropped = drop(piece, board);
+    const key = cellsKey(dropped);
+    const spinFinish = spins && nodes[i].spun && dropped.position.row === piece.position.row;
+    const found = resting.get(key);
+    if (!found || (spinFinish && !found.spun)) resting.set(key, { piece: dropped, node: i, spun: spinFinish });
+
+    for (const move of MOVES) {
+      const moved = applyMove(piece, move, board, system);
+      if (!moved) continue;
+      const next = instantGravity ? drop(moved, board) : moved;
+      const spun = isRotation(move) && next.position.row === moved.position.row;
+      // A position reached by a spin is a different node from the same position reached otherwise
+      const nextKey = stateKey(next) * 2 + (spun ? 1 : 0);
+      if (visited.has(nextKey)) continue;
+      visited.add(nextKey);
+      nodes.push({ piece: next, parent: i, move, spun });
+    }
+  }
+
+  const pathTo = (node: number): EngineInput[] => {
+    const path: EngineInput[] = ['hardDrop'];
+    for (let n = node; nodes[n].move; n = nodes[n].parent) path.unshift(nodes[n].move!);
+    return path;
+  };
+  return [...resting.values()].map(({ piece, node }) => ({ piece, path: pathTo(node) }));
+};
@@ -0,0 +1,50 @@
+import { EngineOptions } from '../engine/types';
+import { applyInput, createGame } from '../engine/engine';
+import { AiAgent } from './types';
+import { aiInputFromEngine, countHoles } from './board';
+
+// Plays whole games without rendering or timing, for benchmarks and weight tuning. Pieces are
+// placed by following the agent's input path, exactly as the in-game AI does.
+
+export interface SimulationOptions {
+  seed: number;
+  maxPieces: number; // Games that survive this long are stopped
+  timeBudget?: number; // ms per decision; unlimited keeps runs reproducible
+  engine?: Partial<EngineOptions>;
+}
+
+export interface SimulatedGame {
+  seed: number;
+  pieces: number;
+  lines: number;
+  score: number;
+  toppedOut: boolean;
+  holes: number[]; // Holes on the board after each piece
+  decisionMs: number[];
+}
+
+export const simulateGame = (agent: AiAgent, options: SimulationOptions): SimulatedGame => {
+  let state = createGame({ lineClearDelay: 0, ...options.engine, seed: options.seed });
+  const holes: number[] = [];
+  const decisionMs: number[] = [];
+
+  while (state.phase === 'playing' && state.current && holes.length < options.maxPieces) {
+    const started = performance.now();
+    const deadline = options.timeBudget === undefined ? Infinity : started + options.timeBudget;
+    const placement = agent.choose(aiInputFromEngine(state), deadline);
+    decisionMs.push(performance.now() - started);
+
+    for (const input of placement?.path ?? ['hardDrop' as const]) state = applyInput(state, input).state;
+    holes.push(countHoles(state.board));
+  }
+
+  return {
+    seed: options.seed,
+    pieces: holes.length,
+    lines: state.lines,
+    score: state.score,
+    toppedOut: state.phase === 'gameOver',
+    holes,
+    decisionMs,
+  };
+};
@@ -0,0 +1,43 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { EngineInput } from '../engine/types';
+import { RotationSystem } from '../engine/rotation';
+import type { DellacherieWeights, GreedyWeights } from './evaluate';
+
+// What an agent sees when it has to place a piece
+export interface AiInput {
+  board: BoardMatrix;
+  current: ActivePiece;
+  queue: ActivePiece[]; // Upcoming pieces, next first
+  hold: ActivePiece | null;
+  canHold: boolean;
+  rotationSystem: RotationSystem; // Decides which kicks, and so which placements, are reachable
+  instantGravity: boolean; // 20G: the piece drops onto the stack after every move
+}
+
+// Where the piece should end up. useHold means: hold first, then place the piece that comes out.
+export interface AiPlacement {
+  piece: ActivePiece; // At its resting position
+  useHold: boolean;
+  score: number; // Agent-specific evaluation, higher is better
+  path: EngineInput[]; // Exact inputs that get the piece there, 'hold' first when useHold, ending with 'hardDrop'
+}
+
+export type AiAgentId = 'greedy' | 'eltetris' | 'lookahead' | 'random';
+
+export type AiWeights = GreedyWeights | DellacherieWeights;
+
+// Everything needed to build an agent, so one can be recreated inside a worker or a CLI run
+export interface AiAgentConfig {
+  id: AiAgentId;
+  weights?: AiWeights; // Evaluation weights for the heuristic agents; their defaults when omitted
+  seed?: number; // RNG seed for the random baseline
+}
+
+export interface AiAgent {
+  id: AiAgentId;
+  name: string;
+  // deadline is a performance.now() timestamp; agents that search deeper return their best so far once it passes
+  choose: (input: AiInput, deadline?: number) => AiPlacement | null;
+  // Up to `count` distinct placements, best first
+  rank: (input: AiInput, count: number, deadline?: number) => AiPlacement[];
+}
@@ -0,0 +1,17 @@
+/// <reference lib="webworker" />
+import { AiAgent } from './types';
+import { getCachedAgent } from './agents';
+import type { AiWorkerRequest, AiWorkerResponse } from './client';
+
+// Runs placement searches off the main thread
+
+declare const self: DedicatedWorkerGlobalScope;
+
+const agents = new Map<string, AiAgent>();
+
+self.onmessage = (event: MessageEvent<AiWorkerRequest>) => {
+  const { id, agent, input, timeBudget, count } = event.data;
+  const deadline = performance.now() + timeBudget;
+  const response: AiWorkerResponse = { id, placements: getCachedAgent(agents, agent).rank(input, count, deadline) };
+  self.postMessage(response);
+};
@@ -0,0 +1,99 @@
+import { AudioSettings } from '../types';
+import { DEFAULT_AUDIO_SETTINGS } from '../constants';
+import { SoundEffect, playSoundEffect } from './sfx';
+import { MusicPlayer, createMusicPlayer } from './music';
+
+// Game audio on the Web Audio API. The AudioContext is created on first use, which comes after
+// a click or key press, so browsers' autoplay rules allow it to start. Pausing suspends the
+// whole context: music and any sound still ringing stop exactly where they were.
+
+export interface AudioEngine {
+  play: (effect: SoundEffect) => void;
+  setMusicPlaying: (playing: boolean) => void;
+  setLevel: (level: number) => void;
+  setPaused: (paused: boolean) => void;
+  setSettings: (settings: AudioSettings) => void;
+  dispose: () => void;
+}
+
+const VOLUME_SMOOTHING = 0.05; // s, time constant of volume changes
+
+interface AudioGraph {
+  context: AudioContext;
+  music: GainNode;
+  effects: GainNode;
+  player: MusicPlayer;
+}
+
+export const createAudioEngine = (): AudioEngine => {
+  let graph: AudioGraph | null = null;
+  let settings = DEFAULT_AUDIO_SETTINGS;
+  let paused = false;
+  let level = 1;
+
+  const applyVolumes = () => {
+    if (!graph) return;
+    const { context, music, effects } = graph;
+    music.gain.setTargetAtTime(settings.muted ? 0 : settings.musicVolume, context.currentTime, VOLUME_SMOOTHING);
+    effects.gain.setTargetAtTime(settings.muted ? 0 : settings.effectsVolume, context.currentTime, VOLUME_SMOOTHING);
+  };
+
+  // null where Web Audio isn't available; the game then simply stays silent
+  const ensureGraph = (): AudioGraph | null => {
+    if (graph) return graph;
+    if (typeof AudioContext === 'undefined') return null;
+    const context = new AudioContext();
+    const music = context.createGain();
+    const effects = context.createGain();
+    music.gain.value = 0;
+    effects.gain.value = 0;
+    music.connect(context.destination);
+    effects.connect(context.destination);
+    const player = createMusicPlayer(context, music);
+    player.setLevel(level);
+    graph = { context, music, effects, player };
+    applyVolumes();
+    return graph;
+  };
+
+  const resume = (audio: AudioGraph) => {
+    if (!paused && audio.context.state === 'suspended') void audio.context.resume();
+  };
+
+  return {
+    play: effect => {
+      if (paused || settings.muted || settings.effectsVolume === 0) return;
+      const audio = ensureGraph();
+      if (!audio) return;
+      resume(audio);
+      playSoundEffect(audio.context, audio.effects, effect);
+    },
+    setMusicPlaying: playing => {
+      const audio = playing ? ensureGraph() : graph;
+      if (!audio) return;
+      resume(audio);
+      if (playing) audio.player.start();
+      else audio.player.stop();
+    },
+    setLevel: next => {
+      level = next;
+      graph?.player.setLevel(next);
+    },
+    setPaused: next => {
+      paused = next;
+      if (!graph) return;
+      if (next) void graph.context.suspend();
+      else resume(graph);
+    },
+    setSettings: next => {
+      settings = next;
+      applyVolumes();
+    },
+    dispose: () => {
+      if (!graph) return;
+      graph.player.dispose();
+      void graph.context.close();
+      graph = null;
+    },
+  };
+};
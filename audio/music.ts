@@ -0,0 +1,110 @@
+import { midiToFrequency } from './sfx';
+
+// Background music: Korobeiniki (a public domain folk song) on a square-wave lead over an octave
+// bass, scheduled slightly ahead on the audio clock. The tempo rises with the level.
+
+export interface MusicPlayer {
+  start: () => void;
+  stop: () => void;
+  setLevel: (level: number) => void;
+  dispose: () => void;
+}
+
+// [MIDI note or null for a rest, length in eighth notes]
+const MELODY: [number | null, number][] = [
+  [76, 2], [71, 1], [72, 1], [74, 2], [72, 1], [71, 1],
+  [69, 2], [69, 1], [72, 1], [76, 2], [74, 1], [72, 1],
+  [71, 3], [72, 1], [74, 2], [76, 2],
+  [72, 2], [69, 2], [69, 4],
+  [74, 3], [77, 1], [81, 2], [79, 1], [77, 1],
+  [76, 3], [72, 1], [76, 2], [74, 1], [72, 1],
+  [71, 2], [71, 1], [72, 1], [74, 2], [76, 2],
+  [72, 2], [69, 2], [69, 2], [null, 2],
+];
+
+// Bass root for each half bar
+const BASS_ROOTS = [40, 40, 45, 45, 40, 40, 45, 45, 38, 38, 36, 36, 35, 40, 45, 45];
+
+const STEPS_PER_HALF_BAR = 4; // Eighth notes
+const LOOP_STEPS = BASS_ROOTS.length * STEPS_PER_HALF_BAR;
+
+// Melody notes by the eighth-note step they start on
+const MELODY_STEPS = (() => {
+  const steps = new Map<number, [number, number]>();
+  let step = 0;
+  MELODY.forEach(([note, length]) => {
+    if (note !== null) steps.set(step, [note, length]);
+    step += length;
+  });
+  return steps;
+})();
+
+const BASE_TEMPO = 120; // Quarter notes per minute at level 1
+const TEMPO_PER_LEVEL = 6;
+const MAX_TEMPO = 210;
+const LOOKAHEAD = 0.12; // s of music scheduled ahead
+const SCHEDULE_INTERVAL = 25; // ms
+
+export const tempoForLevel = (level: number): number => Math.min(BASE_TEMPO + (level - 1) * TEMPO_PER_LEVEL, MAX_TEMPO);
+
+const note = (context: BaseAudioContext, destination: AudioNode, type: OscillatorType, midi: number, start: number, duration: number, gain: number) => {
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(midiToFrequency(midi), start);
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(gain, start + 0.01);
+  envelope.gain.setValueAtTime(gain, start + duration * 0.7);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  oscillator.connect(envelope).connect(destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration + 0.01);
+};
+
+export const createMusicPlayer = (context: BaseAudioContext, destination: AudioNode): MusicPlayer => {
+  // The lead goes through a lowpass filter so the square wave isn't harsh
+  const lead = context.createBiquadFilter();
+  lead.type = 'lowpass';
+  lead.frequency.value = 2400;
+  lead.connect(destination);
+
+  let intervalId: number | null = null;
+  let tempo = tempoForLevel(1);
+  let step = 0;
+  let nextStepTime = 0;
+
+  const schedule = () => {
+    while (nextStepTime < context.currentTime + LOOKAHEAD) {
+      const eighth = 30 / tempo; // s
+      const melody = MELODY_STEPS.get(step);
+      if (melody) note(context, lead, 'square', melody[0], nextStepTime, melody[1] * eighth * 0.9, 0.1);
+      const root = BASS_ROOTS[Math.floor(step / STEPS_PER_HALF_BAR)];
+      note(context, destination, 'triangle', root + (step % 2) * 12, nextStepTime, eighth * 0.8, 0.22);
+      step = (step + 1) % LOOP_STEPS;
+      nextStepTime += eighth;
+    }
+  };
+
+  const stop = () => {
+    if (intervalId !== null) clearInterval(intervalId);
+    intervalId = null;
+  };
+
+  return {
+    start: () => {
+      if (intervalId !== null) return;
+      step = 0;
+      nextStepTime = context.currentTime + 0.05;
+      schedule();
+      intervalId = window.setInterval(schedule, SCHEDULE_INTERVAL);
+    },
+    stop,
+    setLevel: level => {
+      tempo = tempoForLevel(level);
+    },
+    dispose: () => {
+      stop();
+      lead.disconnect();
+    },
+  };
+};
@@ -0,0 +1,134 @@
+// Sound effects synthesized on the spot from oscillators and noise, so no audio files are needed.
+// Each recipe schedules its nodes at `time` on the given context and lets them stop by themselves.
+
+export type ClearSize = 1 | 2 | 3 | 4;
+
+export type SoundEffect =
+  | 'move'
+  | 'rotate'
+  | 'softDrop'
+  | 'hardDrop'
+  | 'lock'
+  | 'hold'
+  | `lineClear${ClearSize}`
+  | 'garbage'
+  | 'levelUp'
+  | 'gameOver';
+
+interface ToneOptions {
+  type: OscillatorType;
+  frequency: number;
+  endFrequency?: number; // Glides exponentially to this frequency
+  start: number;
+  duration: number; // s
+  gain: number;
+}
+
+export const midiToFrequency = (note: number): number => 440 * 2 ** ((note - 69) / 12);
+
+const tone = (context: BaseAudioContext, destination: AudioNode, options: ToneOptions) => {
+  const { type, frequency, endFrequency, start, duration, gain } = options;
+  const oscillator = context.createOscillator();
+  const envelope = context.createGain();
+  oscillator.type = type;
+  oscillator.frequency.setValueAtTime(frequency, start);
+  if (endFrequency) oscillator.frequency.exponentialRampToValueAtTime(endFrequency, start + duration);
+  // Short attack, exponential release: no clicks at either end
+  envelope.gain.setValueAtTime(0.0001, start);
+  envelope.gain.exponentialRampToValueAtTime(gain, start + Math.min(0.005, duration / 4));
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  oscillator.connect(envelope).connect(destination);
+  oscillator.start(start);
+  oscillator.stop(start + duration + 0.01);
+};
+
+// White noise is generated once per context and shared by every noise burst
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+
+const noise = (context: BaseAudioContext, destination: AudioNode, start: number, duration: number, gain: number, cutoff: number) => {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const samples = buffer.getChannelData(0);
+    for (let i = 0; i < samples.length; i++) samples[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  const source = context.createBufferSource();
+  const filter = context.createBiquadFilter();
+  const envelope = context.createGain();
+  source.buffer = buffer;
+  filter.type = 'lowpass';
+  filter.frequency.setValueAtTime(cutoff, start);
+  envelope.gain.setValueAtTime(gain, start);
+  envelope.gain.exponentialRampToValueAtTime(0.0001, start + duration);
+  source.connect(filter).connect(envelope).connect(destination);
+  source.start(start);
+  source.stop(start + duration + 0.01);
+};
+
+// C major chord tones, climbed further for bigger clears
+const CLEAR_NOTES = [72, 76, 79, 84, 88, 91];
+const CLEAR_STEP = 0.06; // s between arpeggio notes
+
+export const playSoundEffect = (context: BaseAudioContext, destination: AudioNode, effect: SoundEffect, time = context.currentTime): void => {
+  switch (effect) {
+    case 'move':
+      tone(context, destination, { type: 'square', frequency: 440, start: time, duration: 0.03, gain: 0.08 });
+      break;
+    case 'rotate':
+      tone(context, destination, { type: 'triangle', frequency: 660, endFrequency: 880, start: time, duration: 0.05, gain: 0.15 });
+      break;
+    case 'softDrop':
+      tone(context, destination, { type: 'sine', frequency: 220, start: time, duration: 0.02, gain: 0.08 });
+      break;
+    case 'hardDrop':
+      noise(context, destination, time, 0.12, 0.35, 900);
+      tone(context, destination, { type: 'sine', frequency: 140, endFrequency: 45, start: time, duration: 0.15, gain: 0.5 });
+      break;
+    case 'lock':
+      tone(context, destination, { type: 'triangle', frequency: 180, endFrequency: 120, start: time, duration: 0.07, gain: 0.25 });
+      break;
+    case 'hold':
+      tone(context, destination, { type: 'sine', frequency: 520, endFrequency: 390, start: time, duration: 0.08, gain: 0.2 });
+      break;
+    case 'lineClear1':
+    case 'lineClear2':
+    case 'lineClear3':
+    case 'lineClear4': {
+      const lines = Number(effect.slice(-1));
+      const notes = CLEAR_NOTES.slice(0, lines + 2);
+      notes.forEach((note, i) => tone(context, destination, {
+        type: lines === 4 ? 'square' : 'triangle',
+        frequency: midiToFrequency(note),
+        start: time + i * CLEAR_STEP,
+        duration: i === notes.length - 1 ? 0.3 + lines * 0.08 : 0.12,
+        gain: 0.18,
+      }));
+      if (lines === 4) noise(context, destination, time, 0.5, 0.12, 6000); // Shimmer
+      break;
+    }
+    case 'garbage':
+      noise(context, destination, time, 0.25, 0.25, 400);
+      tone(context, destination, { type: 'sawtooth', frequency: 60, endFrequency: 90, start: time, duration: 0.2, gain: 0.2 });
+      break;
+    case 'levelUp':
+      [72, 76, 79, 84, 88].forEach((note, i) => tone(context, destination, {
+        type: 'square',
+        frequency: midiToFrequency(note),
+        start: time + i * 0.05,
+        duration: 0.1,
+        gain: 0.12,
+      }));
+      break;
+    case 'gameOver':
+      [67, 63, 60, 55].forEach((note, i) => tone(context, destination, {
+        type: 'sawtooth',
+        frequency: midiToFrequency(note),
+        endFrequency: i === 3 ? midiToFrequency(note - 5) : undefined,
+        start: time + i * 0.25,
+        duration: i === 3 ? 0.9 : 0.24,
+        gain: 0.12,
+      }));
+      break;
+  }
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { TETROMINOES } from '../constants';
+import { StatsSnapshot, inputsPerMinute, inputsPerPiece, piecesPerSecond } from '../engine/stats';
+import { formatDuration } from '../records';
+import { Theme } from '../themes';
+
+interface LiveStatsPanelProps {
+  snapshot: StatsSnapshot;
+  theme: Theme;
+}
+
+const CLEAR_NAMES = ['싱글', '더블', '트리플', '테트리스'];
+
+// Pace, input efficiency and piece and clear counts; shown in the sidebar and the game-over summary
+const LiveStatsPanel: React.FC<LiveStatsPanelProps> = ({ snapshot: { stats, elapsedMs }, theme }) => (
+  <div className="flex flex-col gap-1 text-xs md:text-sm text-gray-300">
+    <div className="grid grid-cols-2 gap-x-3">
+      <p>시간: <span className="text-white font-mono">{formatDuration(elapsedMs)}</span></p>
+      <p>조각: <span className="text-white font-mono">{stats.pieces}</span></p>
+      <p>PPS: <span className="text-white font-mono">{piecesPerSecond(stats, elapsedMs).toFixed(2)}</span></p>
+      <p>입력/조각: <span className="text-white font-mono">{inputsPerPiece(stats).toFixed(2)}</span></p>
+      <p>입력/분: <span className="text-white font-mono">{Math.round(inputsPerMinute(stats, elapsedMs))}</span></p>
+      <p>피네스 실수: <span className="text-white font-mono">{stats.finesseFaults}</span></p>
+    </div>
+    <div className="flex gap-2 flex-wrap">
+      {TETROMINOES.map(shape => (
+        <span key={shape.id} className="font-mono">
+          <span style={{ color: theme.pieceColors[shape.colorIndex] }}>■</span>{shape.id} {stats.pieceCounts[shape.id] ?? 0}
+        </span>
+      ))}
+    </div>
+    <div className="flex gap-2 flex-wrap">
+      {CLEAR_NAMES.map((name, i) => <span key={name}>{name} <span className="text-white font-mono">{stats.clears[i]}</span></span>)}
+    </div>
+  </div>
+);
+
+export default LiveStatsPanel;
@@ -0,0 +1,64 @@
+import React from 'react';
+import { ActivePiece, CellValue } from '../types';
+import { Theme, patternCss } from '../themes';
+
+interface PiecePreviewProps {
+  piece: ActivePiece | null;
+  size?: 'large' | 'small';
+  dimmed?: boolean; // e.g. a hold slot that can't be used until the next piece
+  emptyLabel?: string;
+  theme: Theme;
+}
+
+const DISPLAY_GRID_SIZE = 4;
+
+// Mini renderer for a single piece in its spawn orientation, used by the next queue and the hold box
+const PiecePreview: React.FC<PiecePreviewProps> = ({ piece, size = 'large', dimmed = false, emptyLabel = '미리보기 없음', theme }) => {
+  const boxStyle = size === 'large' ? { width: '6rem', height: '6rem' } : { width: '4rem', height: '4rem' };
+  const emptyBox = (
+    <div className="border border-gray-600 bg-gray-800 flex items-center justify-center text-xs rounded text-center" style={boxStyle}>{emptyLabel}</div>
+  );
+  if (!piece) return emptyBox;
+
+  const matrix = piece.matrices[piece.rotation];
+  let minR = matrix.length, maxR = -1, minC = matrix[0].length, maxC = -1;
+  matrix.forEach((row, rIdx) => {
+    row.forEach((cell, cIdx) => {
+      if (cell !== 0) {
+        minR = Math.min(minR, rIdx);
+        maxR = Math.max(maxR, rIdx);
+        minC = Math.min(minC, cIdx);
+        maxC = Math.max(maxC, cIdx);
+      }
+    });
+  });
+  if (maxR < 0) return emptyBox;
+
+  const pieceHeight = maxR - minR + 1;
+  const pieceWidth = maxC - minC + 1;
+  const displayRowOffset = Math.floor((DISPLAY_GRID_SIZE - pieceHeight) / 2);
+  const displayColOffset = Math.floor((DISPLAY_GRID_SIZE - pieceWidth) / 2);
+
+  return (
+    <div
+      className={`grid grid-cols-4 gap-0.5 p-1 border border-gray-600 bg-gray-700 rounded ${dimmed ? 'opacity-40' : ''}`}
+      style={boxStyle}
+    >
+      {Array(DISPLAY_GRID_SIZE * DISPLAY_GRID_SIZE).fill(0).map((_, i) => {
+        const matrixRow = Math.floor(i / DISPLAY_GRID_SIZE) - displayRowOffset;
+        const matrixCol = (i % DISPLAY_GRID_SIZE) - displayColOffset;
+
+        let cellValue: CellValue = 0;
+        if (matrixRow >= 0 && matrixRow < pieceHeight && matrixCol >= 0 && matrixCol < pieceWidth) {
+          cellValue = matrix[matrixRow + minR][matrixCol + minC];
+        }
+
+        const backgroundColor = cellValue ? theme.pieceColors[cellValue] : 'transparent';
+        const pattern = cellValue ? patternCss(theme.patterns?.[cellValue]) : {};
+        return <div key={i} className="w-full h-full" style={{ ...pattern, backgroundColor }}></div>;
+      })}
+    </div>
+  );
+};
+
+export default PiecePreview;
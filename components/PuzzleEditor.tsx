@@ -0,0 +1,166 @@
+import React, { useRef, useState } from 'react';
+import { BoardMatrix, CellValue } from '../types';
+import { TETROMINOES } from '../constants';
+import { Puzzle, PuzzleGoal } from '../engine/puzzle';
+import { createEmptyBoard } from '../engine/board';
+import { BUNDLED_PUZZLES, CELL_CHARS, exportPuzzle } from '../puzzles';
+import { Theme, patternCss } from '../themes';
+import { downloadJson } from '../files';
+
+interface PuzzleEditorProps {
+  puzzle: Puzzle | null; // null: a new puzzle on an empty board
+  theme: Theme;
+  onSave: (puzzle: Puzzle) => void;
+  onPlay: (puzzle: Puzzle) => void;
+  onClose: () => void;
+}
+
+const PIECE_IDS = TETROMINOES.map(t => t.id);
+const BRUSHES: CellValue[] = [1, 2, 3, 4, 5, 6, 7, 8];
+
+// Paints cells on a 10×20 grid: a press sets the cell to the brush (or clears it when it already
+// is), dragging repeats that to every cell passed over
+const PuzzleEditor: React.FC<PuzzleEditorProps> = ({ puzzle, theme, onSave, onPlay, onClose }) => {
+  // Bundled puzzles are edited as copies, so saving never shadows one
+  const [id] = useState(() => (puzzle && !BUNDLED_PUZZLES.includes(puzzle) ? puzzle.id : `custom-${Date.now().toString(36)}`));
+  const [name, setName] = useState(puzzle?.name ?? '새 퍼즐');
+  const [description, setDescription] = useState(puzzle?.description ?? '');
+  const [board, setBoard] = useState<BoardMatrix>(() => puzzle?.board.map(row => [...row]) ?? createEmptyBoard());
+  const [pieces, setPieces] = useState(puzzle?.pieces.join('') ?? 'T');
+  const [goal, setGoal] = useState<PuzzleGoal>(puzzle?.goal ?? { type: 'clearLines', lines: 1 });
+  const [brush, setBrush] = useState<CellValue>(8);
+  const [error, setError] = useState<string | null>(null);
+  const paintValueRef = useRef<CellValue | null>(null);
+
+  const paint = (row: number, col: number, value: CellValue) =>
+    setBoard(prev => prev.map((cells, r) => (r === row ? cells.map((cell, c) => (c === col ? value : cell)) : cells)));
+
+  const startPaint = (row: number, col: number) => {
+    const value = board[row][col] === brush ? 0 : brush;
+    paintValueRef.current = value;
+    paint(row, col, value);
+  };
+
+  const changeGoalType = (type: PuzzleGoal['type']) => {
+    if (type === 'clearLines') setGoal({ type, lines: 4 });
+    else if (type === 'tSpin') setGoal({ type, lines: 2 });
+    else setGoal({ type });
+  };
+
+  // null when the piece sequence can't be played
+  const buildPuzzle = (): Puzzle | null => {
+    const sequence = Array.from(pieces.toUpperCase().replace(/[\s,]/g, ''));
+    if (sequence.length === 0 || !sequence.every(piece => PIECE_IDS.includes(piece))) {
+      setError(`조각 순서는 ${PIECE_IDS.join('')} 글자로 입력하세요`);
+      return null;
+    }
+    setError(null);
+    return { id, name: name.trim() || '이름 없는 퍼즐', description: description.trim(), board, pieces: sequence, goal };
+  };
+
+  const withPuzzle = (action: (built: Puzzle) => void) => () => {
+    const built = buildPuzzle();
+    if (built) action(built);
+  };
+
+  const buttonClass = 'px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded text-sm font-semibold transition-colors';
+  const inputClass = 'bg-gray-700 rounded px-2 py-1 text-white';
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-30" onClick={onClose}>
+      <div className="max-w-full max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold">퍼즐 편집기</h2>
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div
+            className="grid grid-cols-10 gap-px bg-gray-600 border border-gray-600 select-none touch-none self-start"
+            onPointerUp={() => { paintValueRef.current = null; }}
+            onPointerLeave={() => { paintValueRef.current = null; }}
+          >
+            {board.map((cells, row) => cells.map((cell, col) => (
+              <div
+                key={`${row}-${col}`}
+                className="w-5 h-5 cursor-pointer"
+                style={{ ...(cell ? patternCss(theme.patterns?.[cell]) : {}), backgroundColor: cell ? theme.pieceColors[cell] ?? '#808080' : '#1f2937' }}
+                onPointerDown={() => startPaint(row, col)}
+                onPointerEnter={() => { if (paintValueRef.current !== null) paint(row, col, paintValueRef.current); }}
+              />
+            )))}
+          </div>
+
+          <div className="flex flex-col gap-2 w-64 text-sm text-gray-300">
+            <span>붓</span>
+            <div className="flex flex-wrap gap-1">
+              {BRUSHES.map(value => (
+                <button
+                  key={value}
+                  onClick={() => setBrush(value)}
+                  className={`w-7 h-7 rounded font-bold text-black ${brush === value ? 'ring-2 ring-white' : ''}`}
+                  style={{ backgroundColor: theme.pieceColors[value] ?? '#808080' }}
+                  title={CELL_CHARS[value]}
+                >
+                  {CELL_CHARS[value]}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">같은 색 칸을 다시 누르면 지워집니다</p>
+            <button onClick={() => setBoard(createEmptyBoard())} className={`${buttonClass} self-start`}>보드 비우기</button>
+
+            <label className="flex flex-col gap-1">
+              이름
+              <input type="text" value={name} maxLength={40} onChange={e => setName(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              설명
+              <input type="text" value={description} maxLength={80} onChange={e => setDescription(e.target.value)} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              조각 순서 ({PIECE_IDS.join('')})
+              <input type="text" value={pieces} onChange={e => setPieces(e.target.value)} className={`${inputClass} font-mono`} />
+            </label>
+            <label className="flex items-center justify-between gap-2">
+              목표
+              <select value={goal.type} onChange={e => changeGoalType(e.target.value as PuzzleGoal['type'])} className={inputClass}>
+                <option value="clearLines">줄 지우기</option>
+                <option value="tSpin">T-스핀</option>
+                <option value="perfectClear">퍼펙트 클리어</option>
+              </select>
+            </label>
+            {goal.type === 'clearLines' && (
+              <label className="flex items-center justify-between gap-2">
+                줄 수
+                <input
+                  type="number"
+                  min={1}
+                  max={20}
+                  value={goal.lines}
+                  onChange={e => setGoal({ type: 'clearLines', lines: Math.min(Math.max(Math.round(Number(e.target.value)) || 1, 1), 20) })}
+                  className={`${inputClass} w-20`}
+                />
+              </label>
+            )}
+            {goal.type === 'tSpin' && (
+              <label className="flex items-center justify-between gap-2">
+                지우는 줄
+                <select value={goal.lines} onChange={e => setGoal({ type: 'tSpin', lines: Number(e.target.value) as 1 | 2 | 3 })} className={inputClass}>
+                  <option value={1}>싱글</option>
+                  <option value={2}>더블</option>
+                  <option value={3}>트리플</option>
+                </select>
+              </label>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-xs text-red-400 text-right">{error}</p>}
+        <div className="flex gap-2 justify-end">
+          <button onClick={withPuzzle(built => downloadJson(`tetris-puzzle-${built.id}.json`, exportPuzzle(built)))} className={buttonClass}>내보내기</button>
+          <button onClick={withPuzzle(onSave)} className={buttonClass}>저장</button>
+          <button onClick={withPuzzle(onPlay)} className="px-3 py-1.5 bg-green-600 hover:bg-green-700 rounded text-sm font-semibold transition-colors">플레이</button>
+          <button onClick={onClose} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold transition-colors">닫기</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleEditor;
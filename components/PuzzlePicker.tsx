@@ -0,0 +1,90 @@
+import React, { useRef, useState } from 'react';
+import { Puzzle } from '../engine/puzzle';
+import { BUNDLED_PUZZLES, PuzzleProgress, describeGoal, exportPuzzle, parsePuzzle } from '../puzzles';
+import { downloadJson, readFileAsText } from '../files';
+
+interface PuzzlePickerProps {
+  customPuzzles: Puzzle[];
+  setCustomPuzzles: React.Dispatch<React.SetStateAction<Puzzle[]>>;
+  progress: PuzzleProgress;
+  onPlay: (puzzle: Puzzle) => void;
+  onEdit: (puzzle: Puzzle | null) => void; // null: start from an empty board
+  onClose: () => void;
+}
+
+const PuzzlePicker: React.FC<PuzzlePickerProps> = ({ customPuzzles, setCustomPuzzles, progress, onPlay, onEdit, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const puzzles = [...BUNDLED_PUZZLES, ...customPuzzles];
+  const solvedCount = puzzles.filter(puzzle => progress[puzzle.id]?.solved).length;
+
+  const importPuzzle = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePuzzle(await readFileAsText(file));
+      // A puzzle whose id is taken comes in as a copy, like an edited bundled puzzle
+      setCustomPuzzles(prev => {
+        const taken = [...BUNDLED_PUZZLES, ...prev].some(puzzle => puzzle.id === imported.id);
+        return [...prev, taken ? { ...imported, id: `custom-${Date.now().toString(36)}` } : imported];
+      });
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded text-sm font-semibold transition-colors';
+  const smallButtonClass = 'px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs font-semibold transition-colors';
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-30" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <div className="flex items-baseline justify-between">
+          <h2 className="text-xl font-bold">퍼즐</h2>
+          <span className="text-sm text-gray-400">해결 {solvedCount} / {puzzles.length}</span>
+        </div>
+
+        <ul className="flex flex-col gap-2">
+          {puzzles.map(puzzle => {
+            const entry = progress[puzzle.id];
+            const isCustom = customPuzzles.includes(puzzle);
+            return (
+              <li key={puzzle.id} className="flex items-center gap-3 p-2 bg-gray-700 rounded">
+                <span className={`w-5 text-center ${entry?.solved ? 'text-green-400' : 'text-gray-500'}`}>{entry?.solved ? '✓' : '·'}</span>
+                <div className="flex-grow min-w-0">
+                  <p className="font-semibold">{puzzle.name}{isCustom && <span className="ml-1 text-xs text-gray-400">(사용자)</span>}</p>
+                  <p className="text-xs text-gray-400">
+                    {describeGoal(puzzle.goal)} · 조각 {puzzle.pieces.join(' ')}{entry && ` · 시도 ${entry.attempts}회`}
+                  </p>
+                </div>
+                <button onClick={() => onEdit(puzzle)} className={smallButtonClass}>편집</button>
+                <button onClick={() => downloadJson(`tetris-puzzle-${puzzle.id}.json`, exportPuzzle(puzzle))} className={smallButtonClass}>내보내기</button>
+                {isCustom && (
+                  <button
+                    onClick={() => setCustomPuzzles(prev => prev.filter(custom => custom.id !== puzzle.id))}
+                    className={`${smallButtonClass} bg-red-600 hover:bg-red-700`}
+                  >
+                    삭제
+                  </button>
+                )}
+                <button onClick={() => onPlay(puzzle)} className="px-3 py-1 bg-green-600 hover:bg-green-700 rounded text-sm font-semibold transition-colors">플레이</button>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2 justify-end mt-2">
+          <button onClick={() => onEdit(null)} className={buttonClass}>새 퍼즐 만들기</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>불러오기</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importPuzzle} />
+          <button onClick={onClose} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold transition-colors">닫기</button>
+        </div>
+        {importError && <p className="text-xs text-red-400 text-right">{importError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PuzzlePicker;
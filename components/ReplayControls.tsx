@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { ReplayPlayer } from '../engine/replay';
+import { FRAME_MS } from '../engine/gravity';
+
+interface ReplayControlsProps {
+  player: ReplayPlayer;
+  onClose: () => void;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+const formatTime = (frame: number): string => {
+  const totalSeconds = Math.floor((frame * FRAME_MS) / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ player, onClose }) => {
+  const [frame, setFrame] = useState(player.frame);
+  const [paused, setPaused] = useState(player.paused);
+  const [speed, setSpeed] = useState(player.speed);
+
+  useEffect(() => player.subscribe(() => {
+    setFrame(player.frame);
+    setPaused(player.paused);
+  }), [player]);
+
+  const togglePause = () => {
+    if (player.paused && player.frame >= player.replay.frameCount) player.seek(0);
+    player.paused = !player.paused;
+    setPaused(player.paused);
+  };
+
+  const stepFrames = (frames: number) => {
+    player.paused = true;
+    setPaused(true);
+    player.step(frames);
+  };
+
+  const changeSpeed = (value: number) => {
+    player.speed = value;
+    setSpeed(value);
+  };
+
+  const buttonClass = 'px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm font-semibold transition-colors';
+
+  return (
+    <div className="absolute bottom-2 inset-x-2 bg-gray-800 bg-opacity-90 rounded-lg p-2 flex flex-col gap-2 z-20">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-mono w-24">{formatTime(frame)} / {formatTime(player.replay.frameCount)}</span>
+        <input
+          type="range"
+          min={0}
+          max={player.replay.frameCount}
+          value={frame}
+          onChange={e => player.seek(Number(e.target.value))}
+          className="flex-grow accent-blue-500"
+          aria-label="리플레이 위치"
+        />
+      </div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <button onClick={() => stepFrames(-1)} className={buttonClass} title="이전 프레임">◀|</button>
+        <button onClick={togglePause} className={`${buttonClass} w-16`}>{paused ? '재생' : '일시정지'}</button>
+        <button onClick={() => stepFrames(1)} className={buttonClass} title="다음 프레임">|▶</button>
+        <label className="flex items-center gap-1 text-sm text-gray-300">
+          속도:
+          <select value={speed} onChange={e => changeSpeed(Number(e.target.value))} className="bg-gray-700 rounded px-1 py-0.5 text-white">
+            {SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+          </select>
+        </label>
+        <span className="text-xs text-gray-400">시드 {player.replay.settings.seed} · 프레임 {frame}</span>
+        <button onClick={onClose} className={`${buttonClass} ml-auto bg-red-600 hover:bg-red-700`}>리플레이 종료</button>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayControls;
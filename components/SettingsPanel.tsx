@@ -0,0 +1,220 @@
+import React, { useRef, useState } from 'react';
+import { DEFAULT_HANDLING, HandlingSettings } from '../engine/handling';
+import { AudioSettings, EffectSettings, GhostSettings, GhostStyle } from '../types';
+import { DEFAULT_AUDIO_SETTINGS, DEFAULT_EFFECT_SETTINGS, DEFAULT_GHOST_SETTINGS } from '../constants';
+import { BUILT_IN_THEMES, DEFAULT_THEME_ID, Theme, exportTheme, parseTheme } from '../themes';
+import { downloadJson, readFileAsText } from '../files';
+
+interface SettingsPanelProps {
+  handling: HandlingSettings;
+  setHandling: React.Dispatch<React.SetStateAction<HandlingSettings>>;
+  ghost: GhostSettings;
+  setGhost: React.Dispatch<React.SetStateAction<GhostSettings>>;
+  showFps: boolean;
+  setShowFps: (show: boolean) => void;
+  theme: Theme;
+  setThemeId: (id: string) => void;
+  customThemes: Theme[];
+  setCustomThemes: React.Dispatch<React.SetStateAction<Theme[]>>;
+  effects: EffectSettings;
+  setEffects: React.Dispatch<React.SetStateAction<EffectSettings>>;
+  audio: AudioSettings;
+  setAudio: React.Dispatch<React.SetStateAction<AudioSettings>>;
+  onClose: () => void;
+}
+
+const GHOST_STYLES: { id: GhostStyle; name: string }[] = [
+  { id: 'translucent', name: '반투명' },
+  { id: 'wireframe', name: '와이어프레임' },
+];
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+export const SliderRow: React.FC<SliderRowProps> = ({ label, value, min, max, step = 1, unit = '', disabled = false, onChange }) => (
+  <label className={`flex flex-col gap-1 ${disabled ? 'opacity-50' : ''}`}>
+    <span className="flex justify-between text-sm text-gray-300">
+      <span>{label}</span>
+      <span className="text-white font-mono">{value}{unit}</span>
+    </span>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      disabled={disabled}
+      onChange={e => onChange(Number(e.target.value))}
+      className="w-full accent-blue-500"
+    />
+  </label>
+);
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  handling, setHandling, ghost, setGhost, showFps, setShowFps, theme, setThemeId, customThemes, setCustomThemes, effects, setEffects, audio, setAudio, onClose
+}) => {
+  const themeFileInputRef = useRef<HTMLInputElement>(null);
+  const [themeError, setThemeError] = useState<string | null>(null);
+  const isCustomTheme = customThemes.some(custom => custom.id === theme.id);
+
+  const update = <K extends keyof HandlingSettings>(key: K, value: HandlingSettings[K]) =>
+    setHandling(prev => ({ ...prev, [key]: value }));
+  const updateGhost = <K extends keyof GhostSettings>(key: K, value: GhostSettings[K]) =>
+    setGhost(prev => ({ ...prev, [key]: value }));
+
+  const importTheme = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseTheme(await readFileAsText(file));
+      setCustomThemes(prev => [...prev, imported]);
+      setThemeId(imported.id);
+      setThemeError(null);
+    } catch (error) {
+      setThemeError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const deleteTheme = () => {
+    setCustomThemes(prev => prev.filter(custom => custom.id !== theme.id));
+    setThemeId(DEFAULT_THEME_ID);
+  };
+
+  const smallButtonClass = 'px-2 py-1 bg-gray-600 hover:bg-gray-500 rounded text-xs font-semibold transition-colors';
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-30" onClick={onClose}>
+      <div className="w-80 max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold">설정</h2>
+
+        <h3 className="font-semibold text-gray-200">조작감</h3>
+        <SliderRow label="DAS (자동 이동 지연)" value={handling.das} min={0} max={400} step={5} unit="ms" onChange={v => update('das', v)} />
+        <SliderRow label="ARR (자동 이동 간격)" value={handling.arr} min={0} max={150} step={5} unit="ms" onChange={v => update('arr', v)} />
+        <SliderRow
+          label="소프트 드롭 배속"
+          value={handling.softDropFactor}
+          min={1}
+          max={40}
+          unit="x"
+          disabled={handling.infiniteSoftDrop}
+          onChange={v => update('softDropFactor', v)}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={handling.infiniteSoftDrop} onChange={e => update('infiniteSoftDrop', e.target.checked)} />
+          무한 소프트 드롭 (바닥까지 즉시, 고정 없음)
+        </label>
+        <SliderRow label="고정 지연" value={handling.lockDelay} min={0} max={1000} step={50} unit="ms" onChange={v => update('lockDelay', v)} />
+        <SliderRow
+          label="고정 지연 초기화 횟수"
+          value={handling.lockResetLimit}
+          min={0}
+          max={30}
+          disabled={handling.lockDelay === 0}
+          onChange={v => update('lockResetLimit', v)}
+        />
+        <p className="text-xs text-gray-500">조작감 설정은 새 게임부터 적용됩니다</p>
+
+        <h3 className="font-semibold text-gray-200 mt-2">화면</h3>
+        <label className="flex items-center justify-between gap-2 text-sm text-gray-300">
+          <span>테마</span>
+          <select value={theme.id} onChange={e => setThemeId(e.target.value)} className="bg-gray-700 rounded px-2 py-1 text-white">
+            {BUILT_IN_THEMES.map(builtIn => <option key={builtIn.id} value={builtIn.id}>{builtIn.name}</option>)}
+            {customThemes.map(custom => <option key={custom.id} value={custom.id}>{custom.name} (사용자)</option>)}
+          </select>
+        </label>
+        <div className="flex gap-2 justify-end">
+          <button onClick={() => downloadJson(`tetris-theme-${theme.id}.json`, exportTheme(theme))} className={smallButtonClass}>내보내기</button>
+          <button onClick={() => themeFileInputRef.current?.click()} className={smallButtonClass}>불러오기</button>
+          {isCustomTheme && <button onClick={deleteTheme} className={`${smallButtonClass} bg-red-600 hover:bg-red-700`}>삭제</button>}
+          <input ref={themeFileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importTheme} />
+        </div>
+        {themeError && <p className="text-xs text-red-400">{themeError}</p>}
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={ghost.enabled} onChange={e => updateGhost('enabled', e.target.checked)} />
+          고스트 피스 (착지 위치) 표시
+        </label>
+        <label className={`flex items-center justify-between gap-2 text-sm text-gray-300 ${ghost.enabled ? '' : 'opacity-50'}`}>
+          <span>고스트 스타일</span>
+          <select
+            value={ghost.style}
+            disabled={!ghost.enabled}
+            onChange={e => updateGhost('style', e.target.value as GhostStyle)}
+            className="bg-gray-700 rounded px-2 py-1 text-white"
+          >
+            {GHOST_STYLES.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
+          </select>
+        </label>
+        <SliderRow
+          label="고스트 불투명도"
+          value={Math.round(ghost.opacity * 100)}
+          min={5}
+          max={100}
+          step={5}
+          unit="%"
+          disabled={!ghost.enabled}
+          onChange={v => updateGhost('opacity', v / 100)}
+        />
+        <SliderRow
+          label="효과 강도 (입자, 화면 흔들림)"
+          value={Math.round(effects.intensity * 100)}
+          min={0}
+          max={100}
+          step={10}
+          unit="%"
+          disabled={effects.reducedMotion}
+          onChange={v => setEffects(prev => ({ ...prev, intensity: v / 100 }))}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={effects.reducedMotion} onChange={e => setEffects(prev => ({ ...prev, reducedMotion: e.target.checked }))} />
+          동작 줄이기 (모든 효과 끄기)
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={showFps} onChange={e => setShowFps(e.target.checked)} />
+          FPS / 프레임 시간 표시
+        </label>
+
+        <h3 className="font-semibold text-gray-200 mt-2">소리</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={audio.muted} onChange={e => setAudio(prev => ({ ...prev, muted: e.target.checked }))} />
+          음소거 (M)
+        </label>
+        <SliderRow
+          label="배경 음악"
+          value={Math.round(audio.musicVolume * 100)}
+          min={0}
+          max={100}
+          step={5}
+          unit="%"
+          disabled={audio.muted}
+          onChange={v => setAudio(prev => ({ ...prev, musicVolume: v / 100 }))}
+        />
+        <SliderRow
+          label="효과음"
+          value={Math.round(audio.effectsVolume * 100)}
+          min={0}
+          max={100}
+          step={5}
+          unit="%"
+          disabled={audio.muted}
+          onChange={v => setAudio(prev => ({ ...prev, effectsVolume: v / 100 }))}
+        />
+
+        <div className="flex gap-2 justify-end mt-2">
+          <button onClick={() => { setHandling(DEFAULT_HANDLING); setGhost(DEFAULT_GHOST_SETTINGS); setEffects(DEFAULT_EFFECT_SETTINGS); setAudio(DEFAULT_AUDIO_SETTINGS); }} className="px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded text-sm font-semibold transition-colors">기본값</button>
+          <button onClick={onClose} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold transition-colors">닫기</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
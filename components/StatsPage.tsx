@@ -0,0 +1,160 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  CONTROL_NAMES, RecordControl, ScoreRecord, exportRecords, formatDuration, formatPreciseDuration, formatRecordResult, isTimedMode,
+  leaderboard, lifetimeTotals, mergeRecords, modeName, parseRecords,
+} from '../records';
+import { DEFAULT_GAME_MODE, GAME_MODES } from '../engine/modes';
+import { downloadJson, readFileAsText } from '../files';
+
+interface StatsPageProps {
+  records: ScoreRecord[];
+  setRecords: React.Dispatch<React.SetStateAction<ScoreRecord[]>>;
+  initialMode?: string;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 120;
+
+// Score of every game in order, with the running best as a second line
+const ScoreChart: React.FC<{ records: ScoreRecord[] }> = ({ records }) => {
+  if (records.length < 2) return <p className="text-xs text-gray-500">그래프를 그리려면 두 게임 이상 필요합니다</p>;
+  const max = Math.max(...records.map(record => record.score), 1);
+  const x = (i: number) => (i / (records.length - 1)) * CHART_WIDTH;
+  const y = (score: number) => CHART_HEIGHT - (score / max) * CHART_HEIGHT;
+  let best = 0;
+  const scores = records.map((record, i) => `${x(i)},${y(record.score)}`).join(' ');
+  const bests = records.map((record, i) => {
+    best = Math.max(best, record.score);
+    return `${x(i)},${y(best)}`;
+  }).join(' ');
+  return (
+    <div className="flex flex-col gap-1">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-32 bg-gray-900 rounded" preserveAspectRatio="none">
+        <polyline points={bests} fill="none" stroke="#facc15" strokeWidth={1.5} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        <polyline points={scores} fill="none" stroke="#60a5fa" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>게임 {records.length}판 · 최고 {max}</span>
+        <span><span className="text-blue-400">■</span> 점수 <span className="text-yellow-400">■</span> 최고 기록</span>
+      </div>
+    </div>
+  );
+};
+
+const StatsPage: React.FC<StatsPageProps> = ({ records, setRecords, initialMode = DEFAULT_GAME_MODE, onClose }) => {
+  const [mode, setMode] = useState(initialMode);
+  const [control, setControl] = useState<RecordControl>('human');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const modes = useMemo(() => Array.from(new Set([...GAME_MODES.filter(m => m.ranked).map(m => m.id), ...records.map(record => record.mode)])), [records]);
+  const totals = useMemo(() => lifetimeTotals(records), [records]);
+  const table = useMemo(() => leaderboard(records, mode, control), [records, mode, control]);
+  const history = useMemo(() => records.filter(record => record.mode === mode && record.control === control), [records, mode, control]);
+  const timed = isTimedMode(mode);
+  // Best run of every mode and control that has games
+  const bestRuns = useMemo(() => modes.flatMap(m => (['human', 'ai'] as RecordControl[]).map(c => leaderboard(records, m, c, 1)[0])).filter(Boolean), [records, modes]);
+
+  const importRecords = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseRecords(await readFileAsText(file));
+      setRecords(prev => mergeRecords(prev, imported));
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 bg-gray-600 hover:bg-gray-500 rounded text-sm font-semibold transition-colors';
+  const selectClass = 'bg-gray-700 rounded px-2 py-1 text-white';
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-30" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-full overflow-y-auto bg-gray-800 rounded-lg shadow-xl p-4 flex flex-col gap-3" onClick={e => e.stopPropagation()}>
+        <h2 className="text-xl font-bold">통계</h2>
+
+        <h3 className="font-semibold text-gray-200">누적 기록</h3>
+        <div className="grid grid-cols-3 gap-2 text-sm">
+          <p><span className="text-gray-400">게임 수</span><br />{totals.games}</p>
+          <p><span className="text-gray-400">총 점수</span><br />{totals.score}</p>
+          <p><span className="text-gray-400">총 줄 수</span><br />{totals.lines}</p>
+          <p><span className="text-gray-400">총 조각 수</span><br />{totals.pieces}</p>
+          <p><span className="text-gray-400">총 플레이 시간</span><br />{formatDuration(totals.durationMs)}</p>
+          <p><span className="text-gray-400">평균 PPS</span><br />{totals.durationMs > 0 ? (totals.pieces / (totals.durationMs / 1000)).toFixed(2) : '-'}</p>
+        </div>
+
+        {bestRuns.length > 0 && (
+          <>
+            <h3 className="font-semibold text-gray-200 mt-2">최고 기록</h3>
+            <ul className="text-sm text-gray-300">
+              {bestRuns.map(record => (
+                <li key={record.id}>
+                  {modeName(record.mode)} · {CONTROL_NAMES[record.control]}: <span className="text-white font-semibold">{formatRecordResult(record)}</span> ({record.name}, {record.lines}줄, {formatDuration(record.durationMs)})
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        <div className="flex items-center gap-2 mt-2">
+          <h3 className="font-semibold text-gray-200 mr-auto">순위표</h3>
+          <select value={mode} onChange={e => setMode(e.target.value)} className={selectClass}>
+            {modes.map(m => <option key={m} value={m}>{modeName(m)}</option>)}
+          </select>
+          <select value={control} onChange={e => setControl(e.target.value as RecordControl)} className={selectClass}>
+            {(Object.keys(CONTROL_NAMES) as RecordControl[]).map(c => <option key={c} value={c}>{CONTROL_NAMES[c]}</option>)}
+          </select>
+        </div>
+        {table.length === 0 ? (
+          <p className="text-sm text-gray-500">아직 기록이 없습니다</p>
+        ) : (
+          <table className="w-full text-sm text-right">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="text-left">순위</th>
+                <th className="text-left">이름</th>
+                <th>점수</th>
+                <th>줄</th>
+                <th>레벨</th>
+                <th>시간</th>
+                <th>PPS</th>
+                <th>날짜</th>
+              </tr>
+            </thead>
+            <tbody>
+              {table.map((record, i) => (
+                <tr key={record.id} className="border-t border-gray-700">
+                  <td className="text-left">{i + 1}</td>
+                  <td className="text-left">{record.name}</td>
+                  <td className={timed ? '' : 'font-semibold'}>{record.score}</td>
+                  <td>{record.lines}</td>
+                  <td>{record.level}</td>
+                  <td className={timed ? 'font-semibold' : ''}>{timed ? formatPreciseDuration(record.durationMs) : formatDuration(record.durationMs)}</td>
+                  <td>{record.pps.toFixed(2)}</td>
+                  <td>{new Date(record.date).toLocaleDateString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <h3 className="font-semibold text-gray-200 mt-2">점수 변화</h3>
+        <ScoreChart records={history} />
+
+        <div className="flex gap-2 justify-end mt-2">
+          <button onClick={() => downloadJson('tetris-records.json', exportRecords(records))} className={buttonClass}>내보내기</button>
+          <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>불러오기</button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={importRecords} />
+          <button onClick={onClose} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 rounded text-sm font-semibold transition-colors">닫기</button>
+        </div>
+        {importError && <p className="text-xs text-red-400 text-right">{importError}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default StatsPage;
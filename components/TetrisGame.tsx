@@ -1,820 +1,798 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { BoardMatrix, CellValue, Position, ActivePiece, TetrominoShape, GameState } from '../types';
-import { BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE, TETROMINOES, COLORS, INITIAL_FALL_INTERVAL, LEVEL_INTERVAL_DECREMENT, LINES_PER_LEVEL, getRotations } from '../constants';
+import { ActivePiece, AudioSettings, CameraSettings, EffectSettings, GameResult, GameState, GameSetup, GhostSettings, HintSettings, HintStats, PiecePreviews } from '../types';
+import { BOARD_WIDTH, BOARD_HEIGHT, BLOCK_SIZE } from '../constants';
+import { EngineInput, EngineState, EngineStep } from '../engine/types';
+import { applyInput, createGameFromSettings, getGravity, getGhostPiece, getUpcomingPieces, pressKey, queueGarbage, releaseKey, tick } from '../engine/engine';
+import { HeldKey, INITIAL_HANDLING_STATE } from '../engine/handling';
+import { AiAgentConfig, AiPlacement } from '../ai/types';
+import { AiClient, createAiClient } from '../ai/client';
+import { aiInputFromEngine, cellsKey } from '../ai/board';
+import { createHintGroup, disposeHintGroup } from './hintMeshes';
+import { BoardRenderer, BoardView, createBoardRenderer } from './boardRenderer';
+import { CameraRig, createCameraRig, getCameraPreset } from './cameraRig';
+import { EffectCell, EffectsLayer, createEffectsLayer } from './effects';
+import { AudioEngine, createAudioEngine } from '../audio/audio';
+import { ClearSize, SoundEffect } from '../audio/sfx';
+import { TSpinKind } from '../engine/scoring';
+import { GameStats, StatsPress, StatsSnapshot, applyStatsEvents, createGameStats, recordPress } from '../engine/stats';
+import { Replay, ReplayAction, ReplayPlayer, ReplayRecorder, createReplayRecorder } from '../engine/replay';
+import { FRAME_MS } from '../engine/gravity';
+import { Theme, hexToNumber, themePalette } from '../themes';
+import { DEFAULT_KEY_MAP, KeyMap } from './keyMaps';
 
 interface TetrisGameProps {
   gameState: GameState;
-  setGameState: React.Dispatch<React.SetStateAction<GameState>>;
-  score: number;
+  setup: GameSetup | null;
   setScore: React.Dispatch<React.SetStateAction<number>>;
-  linesCleared: number;
   setLinesCleared: React.Dispatch<React.SetStateAction<number>>;
-  level: number;
   setLevel: React.Dispatch<React.SetStateAction<number>>;
-  nextPiecePreview: ActivePiece | null;
-  setNextPiecePreview: React.Dispatch<React.SetStateAction<ActivePiece | null>>;
-  onGameOver: () => void;
-  isAiActive: boolean;
+  setPreviews: React.Dispatch<React.SetStateAction<PiecePreviews>>;
+  onGameOver: (result: GameResult) => void;
+  onScored: (labels: string[]) => void;
+  onReplayReady: (replay: Replay) => void;
+  replayPlayer: ReplayPlayer | null; // Drives the board instead of live play in GameState.Replay
+  aiAgent: AiAgentConfig | null; // null while the player is in control
+  hints: HintSettings;
+  ghost: GhostSettings;
+  showFps: boolean;
+  theme: Theme;
+  camera: CameraSettings;
+  viewResets: number; // Incremented to ease the camera back to the selected preset
+  undoRequests: number; // Incremented to take back the last piece of a puzzle
+  effects: EffectSettings;
+  audio: AudioSettings;
+  setHintStats: React.Dispatch<React.SetStateAction<HintStats>>;
+  setLiveStats: (snapshot: StatsSnapshot | null) => void;
+  keyMap?: KeyMap;
+  // Versus play: the total rows the opponent has sent so far, and where this board's attacks go
+  garbageReceived?: number;
+  onGarbageSent?: (rows: number) => void;
+  setIncomingGarbage?: (rows: number) => void;
 }
 
-interface AiMove {
-  targetRotation: number;
-  targetCol: number;
-  score: number;
-  finalRow: number;
+const HINT_AGENT: AiAgentConfig = { id: 'eltetris' };
+const HINT_TIME_BUDGET = 100; // ms
+
+const MAX_FRAME_DELTA = 100; // ms, keeps a backgrounded tab from dropping pieces on return
+const LOGIC_INTERVAL = FRAME_MS / 2; // ms between logic steps; each runs however many frames are due
+const FPS_SAMPLE_INTERVAL = 500; // ms
+
+const STATS_PUBLISH_FRAMES = 15; // The live stats panel updates four times a second
+
+const INPUT_PRESSES: Record<EngineInput, StatsPress> = {
+  moveLeft: 'move',
+  moveRight: 'move',
+  rotateCW: 'rotate',
+  rotateCCW: 'rotate',
+  softDrop: 'softDrop',
+  hardDrop: 'hardDrop',
+  hold: 'hold',
+};
+
+const COLLAPSE_MS = 150; // Rows above a clear slide down instead of snapping
+const HARD_DROP_SHAKE = 0.04; // Blocks, plus HARD_DROP_SHAKE_PER_ROW for every row fallen
+const HARD_DROP_SHAKE_PER_ROW = 0.006;
+const HARD_DROP_DUST = 0.25; // Particle strength of the puff under a hard-dropped piece
+const BIG_CLEAR_SHAKE = 0.35; // Tetrises and perfect clears
+const GARBAGE_SHAKE = 0.08; // Per garbage row rising
+
+// Sound for the active piece moving within a step; spawns, holds and locks have events of their own
+const movementSound = (previous: ActivePiece | null, next: ActivePiece | null, softDropHeld: boolean): SoundEffect | null => {
+  if (!previous || !next || previous === next) return null;
+  if (next.rotation !== previous.rotation) return 'rotate';
+  if (next.position.col !== previous.position.col) return 'move';
+  if (next.position.row > previous.position.row && softDropHeld) return 'softDrop';
+  return null;
+};
+
+// Strength 1 for a single; T-spins and perfect clears count extra
+const clearStrength = (count: number, tSpin: TSpinKind, perfectClear: boolean): number =>
+  count * (tSpin === 'full' ? 1.5 : 1) * (perfectClear ? 2 : 1);
+
+interface FrameStats {
+  fps: number;
+  drawsPerSecond: number;
+  drawMs: number; // Average time spent in renderer.render()
 }
 
-const LINE_CLEAR_ANIMATION_DURATION = 300; // ms
+// Scene objects whose look comes from the theme rather than from the board contents
+interface SceneDecor {
+  scene: THREE.Scene;
+  ambient: THREE.AmbientLight;
+  directional: THREE.DirectionalLight;
+  outline: THREE.LineBasicMaterial;
+  grid: THREE.LineSegments<THREE.BufferGeometry, THREE.LineBasicMaterial>;
+}
 
-const createEmptyBoard = (): BoardMatrix => Array(BOARD_HEIGHT).fill(null).map(() => Array(BOARD_WIDTH).fill(0));
+const applySceneTheme = ({ scene, ambient, directional, outline, grid }: SceneDecor, theme: Theme) => {
+  scene.background = new THREE.Color(hexToNumber(theme.background));
+  ambient.color.set(hexToNumber(theme.lights.ambient.color));
+  ambient.intensity = theme.lights.ambient.intensity;
+  directional.color.set(hexToNumber(theme.lights.directional.color));
+  directional.intensity = theme.lights.directional.intensity;
+  directional.position.set(...theme.lights.directional.position);
+  outline.color.set(hexToNumber(theme.grid.outline));
+  grid.visible = theme.grid.lines !== null;
+  if (theme.grid.lines) grid.material.color.set(hexToNumber(theme.grid.lines));
+  grid.material.opacity = theme.grid.opacity;
+};
+
+// Cell boundaries on the back plane of the board
+const createGridGeometry = (): THREE.BufferGeometry => {
+  const points: THREE.Vector3[] = [];
+  const left = -BLOCK_SIZE / 2;
+  const bottom = -BLOCK_SIZE / 2;
+  const back = -BLOCK_SIZE / 2;
+  for (let col = 0; col <= BOARD_WIDTH; col++) {
+    const x = left + col * BLOCK_SIZE;
+    points.push(new THREE.Vector3(x, bottom, back), new THREE.Vector3(x, bottom + BOARD_HEIGHT * BLOCK_SIZE, back));
+  }
+  for (let row = 0; row <= BOARD_HEIGHT; row++) {
+    const y = bottom + row * BLOCK_SIZE;
+    points.push(new THREE.Vector3(left, y, back), new THREE.Vector3(left + BOARD_WIDTH * BLOCK_SIZE, y, back));
+  }
+  return new THREE.BufferGeometry().setFromPoints(points);
+};
+
+const HELD_KEYS: HeldKey[] = ['left', 'right', 'softDrop'];
 
 const TetrisGame: React.FC<TetrisGameProps> = ({
-  gameState, setGameState, score, setScore, linesCleared, setLinesCleared, level, setLevel, nextPiecePreview, setNextPiecePreview, onGameOver, isAiActive
+  gameState, setup, setScore, setLinesCleared, setLevel, setPreviews, onGameOver, onScored, onReplayReady, replayPlayer, aiAgent, hints, ghost, showFps, theme, camera: cameraSettings, viewResets, undoRequests, effects, audio, setHintStats, setLiveStats,
+  keyMap = DEFAULT_KEY_MAP, garbageReceived = 0, onGarbageSent, setIncomingGarbage,
 }) => {
+  const isAiActive = aiAgent !== null;
   const mountRef = useRef<HTMLDivElement>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const controlsRef = useRef<OrbitControls | null>(null);
-  const clockRef = useRef<THREE.Clock>(new THREE.Clock());
-  
-  const boardGroupRef = useRef<THREE.Group>(new THREE.Group());
-  const currentPieceGroupRef = useRef<THREE.Group>(new THREE.Group());
-
+  const cameraRigRef = useRef<CameraRig | null>(null);
+  const effectsLayerRef = useRef<EffectsLayer | null>(null);
+  const reducedMotionRef = useRef(effects.reducedMotion);
+  reducedMotionRef.current = effects.reducedMotion;
+  const cameraSettingsRef = useRef(cameraSettings);
+  cameraSettingsRef.current = cameraSettings;
   const blockGeometryRef = useRef<THREE.BoxGeometry | null>(null);
-  const blockMaterialsRef = useRef<THREE.MeshStandardMaterial[]>([]);
-  const flashMaterialRef = useRef<THREE.MeshStandardMaterial | null>(null);
-
+  const boardRendererRef = useRef<BoardRenderer | null>(null);
+  const sceneDecorRef = useRef<SceneDecor | null>(null);
+  const themeRef = useRef(theme);
+  themeRef.current = theme;
+  const renderRequestedRef = useRef(true); // Set when something outside the board view changed
+  const requestRender = useCallback(() => {
+    renderRequestedRef.current = true;
+  }, []);
+  const [frameStats, setFrameStats] = useState<FrameStats | null>(null);
+  const showFpsRef = useRef(showFps);
+  showFpsRef.current = showFps;
 
-  const [board, setBoard] = useState<BoardMatrix>(createEmptyBoard());
+  // The engine owns the rules; React state only mirrors the active piece so effects can react to it
+  const engineRef = useRef<EngineState | null>(null);
   const [currentPiece, setCurrentPiece] = useState<ActivePiece | null>(null);
-  
-  const fallIntervalRef = useRef<number>(INITIAL_FALL_INTERVAL);
-  const lastFallTimeRef = useRef<number>(0);
+
+  // Live games run on a fixed timestep so that the recorded inputs replay deterministically
+  const frameRef = useRef(0);
+  const frameAccumulatorRef = useRef(0);
+  const recorderRef = useRef<ReplayRecorder | null>(null);
+  const recordedGravityRef = useRef(true);
+  const statsRef = useRef<GameStats>(createGameStats());
+  const statsPublishedFrameRef = useRef(0);
+  const aiAssistedRef = useRef(false);
+  // Puzzle undo: the state each locked piece spawned in, latest last
+  const undoStackRef = useRef<EngineState[]>([]);
+  const undoAppliedRef = useRef(undoRequests); // Of undoRequests
+  const spawnStateRef = useRef<EngineState | null>(null);
+  const garbageAppliedRef = useRef(0); // Of garbageReceived
 
   // AI related refs
-  const currentPieceRef = useRef<ActivePiece | null>(null);
-  const boardRef = useRef<BoardMatrix>(createEmptyBoard());
   const aiActionInProgressRef = useRef(false);
   const aiThinkTimeoutRef = useRef<number | null>(null);
-  const aiCurrentBestMoveRef = useRef<AiMove | null>(null);
+  const aiPathRef = useRef<EngineInput[]>([]); // Remaining inputs of the chosen placement
+  const aiClientRef = useRef<AiClient | null>(null);
+  const audioRef = useRef<AudioEngine | null>(null);
   const aiStepTimeoutRef = useRef<number | null>(null);
 
-  const AI_STEP_INTERVAL = 75; // ms
-  const prevGameStateRef = useRef<GameState | null>(null);
-
-  // Line clear animation refs
-  const clearingRowsRef = useRef<number[]>([]);
-  const isLineClearingAnimationActiveRef = useRef(false);
-  const lineClearEffectTimeoutRef = useRef<number | null>(null);
+  // Coach mode: suggestions for the piece in play, shared with the AI's worker while the player steers
+  const [hintPlacements, setHintPlacements] = useState<AiPlacement[]>([]);
+  const hintsRef = useRef(hints);
+  hintsRef.current = hints;
+  const hintBestRef = useRef<AiPlacement | null>(null); // What the player's next lock is compared against
+  const aiAgentRef = useRef(aiAgent);
+  aiAgentRef.current = aiAgent;
 
+  const AI_STEP_INTERVAL = 75; // ms
+  const AI_TIME_BUDGET = 150; // ms per decision, for agents that search deeper
 
-  useEffect(() => {
-    currentPieceRef.current = currentPiece;
-  }, [currentPiece]);
-
-  useEffect(() => {
-    boardRef.current = board;
-  }, [board]);
-
-  const spawnNewPiece = useCallback((): ActivePiece => {
-    const randomIndex = Math.floor(Math.random() * TETROMINOES.length);
-    const shape = TETROMINOES[randomIndex];
-    const matrices = getRotations(shape.matrix.map(row => row.map(cell => cell > 0 ? shape.colorIndex : 0)));
-    return {
-      shape,
-      matrices,
-      rotation: 0,
-      position: { row: 0, col: Math.floor(BOARD_WIDTH / 2) - Math.floor(matrices[0][0].length / 2) },
-    };
+  const resetAi = useCallback(() => {
+    if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
+    if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
+    aiClientRef.current?.cancel();
+    aiActionInProgressRef.current = false;
+    aiPathRef.current = [];
   }, []);
 
-  const checkCollision = useCallback((piece: ActivePiece, pos: Position, boardToCheck: BoardMatrix): boolean => {
-    const matrix = piece.matrices[piece.rotation];
-    for (let r = 0; r < matrix.length; r++) {
-      for (let c = 0; c < matrix[r].length; c++) {
-        if (matrix[r][c] !== 0) {
-          const boardRow = pos.row + r;
-          const boardCol = pos.col + c;
-          if (
-            boardRow >= BOARD_HEIGHT ||
-            boardCol < 0 ||
-            boardCol >= BOARD_WIDTH ||
-            (boardRow >= 0 && boardToCheck[boardRow] && boardToCheck[boardRow][boardCol] !== 0)
-          ) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
+  // Asks for suggestions for the piece that just came into play; the AI client answers only the latest request
+  const requestHints = useCallback((engine: EngineState) => {
+    const { enabled, showTopThree } = hintsRef.current;
+    hintBestRef.current = null;
+    setHintPlacements([]);
+    if (!enabled || aiAgentRef.current || !engine.current || !aiClientRef.current) return;
+    aiClientRef.current.request(HINT_AGENT, aiInputFromEngine(engine), { timeBudget: HINT_TIME_BUDGET, count: showTopThree ? 3 : 1 }, placements => {
+      hintBestRef.current = placements[0] ?? null;
+      setHintPlacements(placements);
+    });
   }, []);
 
-  useEffect(() => {
-    const previousGameState = prevGameStateRef.current;
-    prevGameStateRef.current = gameState;
-
-    if (gameState === GameState.Playing) {
-      if (previousGameState === GameState.Initial || previousGameState === GameState.GameOver || previousGameState === null) {
-        setBoard(createEmptyBoard());
-        const newCurrentPiece = spawnNewPiece();
-        setCurrentPiece(newCurrentPiece);
-        if (setNextPiecePreview) {
-          setNextPiecePreview(spawnNewPiece());
-        }
-        fallIntervalRef.current = Math.max(100, INITIAL_FALL_INTERVAL - (level - 1) * LEVEL_INTERVAL_DECREMENT);
-        isLineClearingAnimationActiveRef.current = false;
-        clearingRowsRef.current = [];
-      }
-      lastFallTimeRef.current = performance.now(); 
-      aiActionInProgressRef.current = false; 
-      aiCurrentBestMoveRef.current = null;
-      if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
-      if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-
-    } else if (gameState === GameState.GameOver || gameState === GameState.Initial || gameState === GameState.Paused) {
-        if (gameState !== GameState.Paused) { // Don't clear current piece on pause
-            setCurrentPiece(null); 
-        }
-      aiActionInProgressRef.current = false;
-      aiCurrentBestMoveRef.current = null;
-      if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
-      if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-      if (lineClearEffectTimeoutRef.current) {
-        clearTimeout(lineClearEffectTimeoutRef.current);
-        lineClearEffectTimeoutRef.current = null;
-      }
-      isLineClearingAnimationActiveRef.current = false;
-      clearingRowsRef.current = [];
-    }
-  }, [gameState, level, spawnNewPiece, setNextPiecePreview]);
-
-
-  const lockPiece = useCallback((pieceToLock: ActivePiece | null) => {
-    if (!pieceToLock) {
-        aiActionInProgressRef.current = false;
-        return;
-    }
-    if (isLineClearingAnimationActiveRef.current) return; // Don't lock if already clearing
-
-    const newBoard = boardRef.current.map(row => [...row]);
-    const matrix = pieceToLock.matrices[pieceToLock.rotation];
-    matrix.forEach((row, r) => {
-      row.forEach((cell, c) => {
-        if (cell !== 0) {
-          const boardRow = pieceToLock.position.row + r;
-          const boardCol = pieceToLock.position.col + c;
-          if (boardRow >= 0 && boardRow < BOARD_HEIGHT && boardCol >= 0 && boardCol < BOARD_WIDTH) {
-            newBoard[boardRow][boardCol] = cell as CellValue;
-          }
+  const publishPreviews = useCallback((engine: EngineState) => {
+    setPreviews({ next: getUpcomingPieces(engine), hold: engine.hold, holdUsed: engine.holdUsed });
+  }, [setPreviews]);
+
+  const commit = useCallback((step: EngineStep) => {
+    const previous = engineRef.current;
+    engineRef.current = step.state;
+    if (previous?.current !== step.state.current) setCurrentPiece(step.state.current);
+    if (previous?.score !== step.state.score) setScore(step.state.score); // Drops score without an event
+    if (previous?.incomingGarbage !== step.state.incomingGarbage) setIncomingGarbage?.(step.state.incomingGarbage);
+
+    if (step.events.length > 0) statsRef.current = applyStatsEvents(statsRef.current, step.events, step.state.options.rotationSystem);
+    let pieceChanged = false;
+    const palette = themePalette(themeRef.current);
+    const effectsLayer = effectsLayerRef.current;
+    const sound = audioRef.current;
+    let hardDropped = false;
+    step.events.forEach(event => {
+      switch (event.type) {
+        case 'hardDropped': {
+          hardDropped = true;
+          sound?.play('hardDrop');
+          effectsLayer?.shake(HARD_DROP_SHAKE + event.distance * HARD_DROP_SHAKE_PER_ROW);
+          const { piece } = event;
+          const cells: EffectCell[] = [];
+          piece.matrices[piece.rotation].forEach((cellRow, r) => cellRow.forEach((cell, c) => {
+            // Only the blocks with nothing of the piece under them touch down
+            const below = piece.matrices[piece.rotation][r + 1]?.[c] ?? 0;
+            if (cell !== 0 && below === 0) cells.push({ row: piece.position.row + r + 0.5, col: piece.position.col + c, color: palette[cell] });
+          }));
+          effectsLayer?.burst(cells, HARD_DROP_DUST);
+          break;
         }
-      });
-    });
-    
-     let isLockPhaseGameOver = false;
-     const lockedMatrix = pieceToLock.matrices[pieceToLock.rotation];
-     for (let r_idx = 0; r_idx < lockedMatrix.length; r_idx++) {
-        for (let c_idx = 0; c_idx < lockedMatrix[r_idx].length; c_idx++) {
-          if (lockedMatrix[r_idx][c_idx] !== 0 && (pieceToLock.position.row + r_idx < 0)) {
-               isLockPhaseGameOver = true;
-               break;
+        case 'pieceLocked':
+          if (!hardDropped) sound?.play('lock');
+          if (step.state.options.puzzle && spawnStateRef.current) undoStackRef.current.push(spawnStateRef.current);
+          resetAi();
+          if (hintBestRef.current) {
+            const matched = cellsKey(hintBestRef.current.piece) === cellsKey(event.piece);
+            setHintStats(stats => ({ suggested: stats.suggested + 1, matched: stats.matched + (matched ? 1 : 0) }));
           }
+          hintBestRef.current = null;
+          setHintPlacements([]);
+          break;
+        case 'pieceSpawned':
+          spawnStateRef.current = step.state;
+          publishPreviews(step.state);
+          pieceChanged = true;
+          break;
+        case 'pieceHeld':
+          sound?.play('hold');
+          pieceChanged = true;
+          break;
+        case 'linesCleared': {
+          setLinesCleared(step.state.lines);
+          // The rows are still on the board while the clear delay runs; without a delay there's no color left to read
+          const board = step.state.clearingRows.length > 0 ? step.state.board : null;
+          const cells = event.rows.flatMap(row => Array.from({ length: BOARD_WIDTH }, (_, col) => ({
+            row,
+            col,
+            color: palette[board?.[row][col] ?? 0] ?? 0xffffff,
+          })));
+          effectsLayer?.burst(cells, clearStrength(event.count, event.tSpin, event.perfectClear));
+          sound?.play(`lineClear${Math.min(event.count, 4) as ClearSize}`);
+          if (event.count >= 4 || event.perfectClear) effectsLayer?.shake(BIG_CLEAR_SHAKE);
+          break;
         }
-        if (isLockPhaseGameOver) break;
-     }
-
-     if (isLockPhaseGameOver) {
-        onGameOver();
-        setCurrentPiece(null); 
-        aiActionInProgressRef.current = false;
-        aiCurrentBestMoveRef.current = null;
-        if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-        if (lineClearEffectTimeoutRef.current) clearTimeout(lineClearEffectTimeoutRef.current);
-        isLineClearingAnimationActiveRef.current = false;
-        clearingRowsRef.current = [];
-        return;
-     }
-
-    let linesToClearIndices: number[] = [];
-    for (let r = BOARD_HEIGHT - 1; r >= 0; r--) {
-      if (newBoard[r].every(cell => cell !== 0)) { 
-        linesToClearIndices.push(r);
-      }
-    }
-    
-    setBoard(newBoard); // Update board with locked piece first
-
-    if (linesToClearIndices.length > 0) {
-      clearingRowsRef.current = linesToClearIndices;
-      isLineClearingAnimationActiveRef.current = true;
-      
-      // currentPiece is set to null during animation to prevent it from being rendered/moved
-      setCurrentPiece(null); 
-
-
-      if (lineClearEffectTimeoutRef.current) clearTimeout(lineClearEffectTimeoutRef.current);
-      lineClearEffectTimeoutRef.current = window.setTimeout(() => {
-        const boardAfterClearVisuals = boardRef.current.map(row => [...row]); // boardRef IS newBoard now
-        let linesClearedThisTurn = 0;
-
-        const sortedClearingRows = [...clearingRowsRef.current].sort((a, b) => b - a);
-
-        for (const rowIndex of sortedClearingRows) {
-          boardAfterClearVisuals.splice(rowIndex, 1); 
-          boardAfterClearVisuals.unshift(Array(BOARD_WIDTH).fill(0)); 
-          linesClearedThisTurn++;
-        }
-        setBoard(boardAfterClearVisuals); 
-
-        if (linesClearedThisTurn > 0) {
-          const newTotalLines = linesCleared + linesClearedThisTurn;
-          setLinesCleared(newTotalLines);
-          setScore(prevScore => prevScore + linesClearedThisTurn * 100 * linesClearedThisTurn * level); 
-          const newLevel = Math.floor(newTotalLines / LINES_PER_LEVEL) + 1;
-          if (newLevel > level) {
-            setLevel(newLevel);
-            fallIntervalRef.current = Math.max(100, INITIAL_FALL_INTERVAL - (newLevel - 1) * LEVEL_INTERVAL_DECREMENT);
+        case 'scored':
+          if (event.labels.length > 0) onScored(event.labels);
+          break;
+        case 'levelUp':
+          setLevel(event.level);
+          sound?.play('levelUp');
+          sound?.setLevel(event.level);
+          break;
+        case 'garbageAdded':
+          sound?.play('garbage');
+          effectsLayer?.shake(GARBAGE_SHAKE * event.rows);
+          break;
+        case 'garbageSent':
+          onGarbageSent?.(event.rows);
+          break;
+        case 'boardReset':
+          sound?.play('gameOver');
+          effectsLayer?.shake(BIG_CLEAR_SHAKE);
+          break;
+        case 'gameOver':
+          sound?.play(event.reason === 'topOut' || event.reason === 'outOfPieces' ? 'gameOver' : 'levelUp');
+          resetAi();
+          if (recorderRef.current) {
+            onReplayReady(recorderRef.current.finish(frameRef.current, step.state));
+            recorderRef.current = null;
           }
-        }
-
-        let newPieceToSpawn: ActivePiece | null = null;
-        if (nextPiecePreview) {
-            newPieceToSpawn = nextPiecePreview;
-            if (setNextPiecePreview) setNextPiecePreview(spawnNewPiece());
-        } else { 
-            newPieceToSpawn = spawnNewPiece();
-            if (setNextPiecePreview) setNextPiecePreview(spawnNewPiece());
-        }
-        
-        if (newPieceToSpawn && checkCollision(newPieceToSpawn, newPieceToSpawn.position, boardAfterClearVisuals)) { 
-            onGameOver();
-            // setCurrentPiece(null) already done
-        } else {
-            setCurrentPiece(newPieceToSpawn);
-        }
-
-        clearingRowsRef.current = [];
-        isLineClearingAnimationActiveRef.current = false;
-        aiActionInProgressRef.current = false; 
-        aiCurrentBestMoveRef.current = null;
-        if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-        lastFallTimeRef.current = performance.now(); // Reset fall timer for new piece
-
-      }, LINE_CLEAR_ANIMATION_DURATION);
-
-    } else { // No lines cleared
-      // setBoard(newBoard) already called
-      let newPieceToSpawn: ActivePiece | null = null;
-      if (nextPiecePreview) {
-          newPieceToSpawn = nextPiecePreview;
-          if (setNextPiecePreview) setNextPiecePreview(spawnNewPiece());
-      } else { 
-          newPieceToSpawn = spawnNewPiece();
-          if (setNextPiecePreview) setNextPiecePreview(spawnNewPiece());
-      }
-      
-      if (newPieceToSpawn && checkCollision(newPieceToSpawn, newPieceToSpawn.position, newBoard)) { 
-          onGameOver();
-          setCurrentPiece(null);
-      } else {
-          setCurrentPiece(newPieceToSpawn);
+          setLiveStats({ stats: statsRef.current, elapsedMs: step.state.elapsedMs });
+          onGameOver({
+            mode: step.state.options.mode,
+            reason: event.reason,
+            score: step.state.score,
+            lines: step.state.lines,
+            level: step.state.level,
+            durationMs: step.state.elapsedMs,
+            pieces: statsRef.current.pieces,
+            aiAssisted: aiAssistedRef.current,
+          });
+          break;
       }
-      aiActionInProgressRef.current = false; 
-      aiCurrentBestMoveRef.current = null;
-      if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
+    });
+    if (step.events.length === 0) {
+      const effect = movementSound(previous?.current ?? null, step.state.current, step.state.handling.held.softDrop);
+      if (effect) sound?.play(effect);
     }
+    if (pieceChanged) requestHints(step.state);
+  }, [resetAi, requestHints, publishPreviews, setScore, setLinesCleared, setLevel, setHintStats, setLiveStats, onGameOver, onScored, onReplayReady, onGarbageSent, setIncomingGarbage]);
+
+  const record = useCallback((action: ReplayAction) => recorderRef.current?.record(frameRef.current, action), []);
+
+  // Returns false when the input had no effect on the game
+  const sendInput = useCallback((input: EngineInput): boolean => {
+    const engine = engineRef.current;
+    if (!engine || gameState !== GameState.Playing) return false;
+    record(input);
+    statsRef.current = recordPress(statsRef.current, INPUT_PRESSES[input]);
+    const step = applyInput(engine, input);
+    commit(step);
+    return step.state !== engine;
+  }, [commit, record, gameState]);
+
+  const sendKey = useCallback((key: HeldKey, pressed: boolean) => {
+    const engine = engineRef.current;
+    if (!engine) return;
+    if (pressed ? gameState !== GameState.Playing : gameState !== GameState.Playing && gameState !== GameState.Paused) return;
+    record(pressed ? `press:${key}` : `release:${key}`);
+    if (pressed) statsRef.current = recordPress(statsRef.current, key === 'softDrop' ? 'softDrop' : 'move');
+    commit(pressed ? pressKey(engine, key) : releaseKey(engine, key));
+  }, [commit, record, gameState]);
 
-  }, [nextPiecePreview, spawnNewPiece, setLinesCleared, setScore, setLevel, level, linesCleared, onGameOver, setNextPiecePreview, checkCollision, boardRef]);
-
-
-  const movePiece = useCallback((dRow: number, dCol: number): boolean => {
-    if (!currentPieceRef.current || gameState !== GameState.Playing || isLineClearingAnimationActiveRef.current) return false;
-    const newPosition = { row: currentPieceRef.current.position.row + dRow, col: currentPieceRef.current.position.col + dCol };
-    if (!checkCollision(currentPieceRef.current, newPosition, boardRef.current)) {
-      setCurrentPiece(prev => prev ? { ...prev, position: newPosition } : null);
-      return true;
+  useEffect(() => {
+    if (!setup) {
+      engineRef.current = null;
+      setCurrentPiece(null);
+      return;
     }
-    return false;
-  }, [checkCollision, gameState, setCurrentPiece]);
+    const { id, ...settings } = setup;
+    const engine = createGameFromSettings(settings);
+    engineRef.current = engine;
+    frameRef.current = 0;
+    frameAccumulatorRef.current = 0;
+    recorderRef.current = createReplayRecorder(settings);
+    recordedGravityRef.current = true;
+    aiAssistedRef.current = false;
+    statsRef.current = createGameStats();
+    statsPublishedFrameRef.current = 0;
+    undoStackRef.current = [];
+    spawnStateRef.current = engine;
+    setLiveStats({ stats: statsRef.current, elapsedMs: 0 });
+    setIncomingGarbage?.(0);
+    setCurrentPiece(engine.current);
+    publishPreviews(engine);
+    audioRef.current?.setLevel(engine.level);
+    resetAi();
+  }, [setup, resetAi, publishPreviews, setLiveStats, setIncomingGarbage]);
+
+  // Replays bypass commit(): seeking can jump anywhere, so the panels follow the state, not events
+  const showReplayState = useCallback((engine: EngineState) => {
+    const previous = engineRef.current;
+    engineRef.current = engine;
+    if (previous === engine) return;
+    if (previous?.current !== engine.current) setCurrentPiece(engine.current);
+    if (previous?.queue !== engine.queue || previous?.hold !== engine.hold || previous?.holdUsed !== engine.holdUsed) publishPreviews(engine);
+    setScore(engine.score);
+    setLinesCleared(engine.lines);
+    setLevel(engine.level);
+  }, [publishPreviews, setScore, setLinesCleared, setLevel]);
 
-  const moveDown = useCallback(() => {
-    if (!currentPieceRef.current || gameState !== GameState.Playing || isLineClearingAnimationActiveRef.current) return;
-    if (!movePiece(1, 0)) {
-      lockPiece(currentPieceRef.current); 
-    }
-  }, [movePiece, lockPiece, gameState]);
-
-  const rotatePiece = useCallback(() => {
-    if (!currentPieceRef.current || gameState !== GameState.Playing || isLineClearingAnimationActiveRef.current) return;
-    const newRotation = (currentPieceRef.current.rotation + 1) % currentPieceRef.current.matrices.length;
-    const rotatedPiece = { ...currentPieceRef.current, rotation: newRotation };
-    if (!checkCollision(rotatedPiece, currentPieceRef.current.position, boardRef.current)) {
-      setCurrentPiece(rotatedPiece);
-    } else {
-      const testOffsets = [-1, 1, -2, 2]; 
-      for (const offset of testOffsets) {
-        const testPosition = { row: currentPieceRef.current.position.row, col: currentPieceRef.current.position.col + offset };
-        if (!checkCollision(rotatedPiece, testPosition, boardRef.current)) {
-          setCurrentPiece({ ...rotatedPiece, position: testPosition });
-          return;
-        }
-      }
-      if (currentPieceRef.current.shape.id === 'I' && currentPieceRef.current.position.row <=1 ) { 
-         const testPositionUp1 = { ...currentPieceRef.current.position, row: currentPieceRef.current.position.row -1};
-         if(!checkCollision(rotatedPiece, testPositionUp1, boardRef.current)){
-            setCurrentPiece({...rotatedPiece, position: testPositionUp1});
-            return;
-         }
-         const testPositionUp2 = { ...currentPieceRef.current.position, row: currentPieceRef.current.position.row -2};
-         if(!checkCollision(rotatedPiece, testPositionUp2, boardRef.current)){
-            setCurrentPiece({...rotatedPiece, position: testPositionUp2});
-            return;
-         }
-      } else if (currentPieceRef.current.position.row <=1) { 
-         const testPositionUp = { ...currentPieceRef.current.position, row: currentPieceRef.current.position.row -1};
-          if(!checkCollision(rotatedPiece, testPositionUp, boardRef.current)){
-            setCurrentPiece({...rotatedPiece, position: testPositionUp});
-            return;
-         }
-      }
-    }
-  }, [checkCollision, gameState, setCurrentPiece]);
-  
-  const hardDrop = useCallback(() => {
-    if (!currentPieceRef.current || gameState !== GameState.Playing || isLineClearingAnimationActiveRef.current) return;
-    let pieceToDrop = { ...currentPieceRef.current }; 
-    let newPosition = { ...pieceToDrop.position };
-    while (!checkCollision(pieceToDrop, { row: newPosition.row + 1, col: newPosition.col }, boardRef.current)) {
-      newPosition.row++;
-    }
-    const finalPieceState = { ...currentPieceRef.current, position: newPosition };
-    lockPiece(finalPieceState); 
-  }, [gameState, checkCollision, lockPiece]);
+  useEffect(() => {
+    if (!replayPlayer) return;
+    engineRef.current = null;
+    showReplayState(replayPlayer.engine);
+  }, [replayPlayer, showReplayState]);
 
+  useEffect(() => {
+    resetAi();
+  }, [gameState, resetAi]);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      if (isLineClearingAnimationActiveRef.current) return; 
-      if (isAiActive && gameState === GameState.Playing) {
-          event.preventDefault();
-          return;
-      }
-      if (gameState !== GameState.Playing || !currentPieceRef.current) {
-         if (event.key === ' ' && gameState === GameState.Playing && !currentPieceRef.current && !isLineClearingAnimationActiveRef.current) {
-            event.preventDefault();
-         }
-        return;
-      }
-      if (event.key === ' ') event.preventDefault(); 
-
-      switch (event.key) {
-        case 'ArrowLeft': movePiece(0, -1); break;
-        case 'ArrowRight': movePiece(0, 1); break;
-        case 'ArrowDown': 
-          lastFallTimeRef.current = performance.now(); 
-          moveDown(); 
-          break;
-        case 'ArrowUp': case 'x': case 'X': rotatePiece(); break;
-        case ' ': hardDrop(); break; 
-        default: break;
-      }
+      if (gameState !== GameState.Playing) return;
+      const heldKey = keyMap.held[event.code];
+      const input = keyMap.inputs[event.code];
+      if (heldKey || input) event.preventDefault();
+      if (isAiActive || event.repeat) return; // Repeats come from the engine's DAS/ARR
+
+      if (heldKey) sendKey(heldKey, true);
+      else if (input) sendInput(input);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const heldKey = keyMap.held[event.code];
+      if (heldKey) sendKey(heldKey, false);
     };
+    // Keyup never arrives for keys held while the window loses focus
+    const handleBlur = () => HELD_KEYS.forEach(key => sendKey(key, false));
     window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [gameState, movePiece, moveDown, rotatePiece, hardDrop, isAiActive]);
-
-  // AI Logic
-  const evaluateBoardState = (tempBoard: BoardMatrix, piece: ActivePiece, dropRow: number): number => {
-    let score = 0;
-    let linesClearedCount = 0;
-  
-    const boardAfterPlace = tempBoard.map(r => [...r]);
-    const matrix = piece.matrices[piece.rotation];
-
-    let isPlacedGameOver = false;
-    matrix.forEach((rowCells, r) => {
-        rowCells.forEach((cell, c) => {
-            if (cell !== 0) {
-                const finalRow = dropRow + r;
-                const finalCol = piece.position.col + c; 
-                if (finalRow >= 0 && finalRow < BOARD_HEIGHT && finalCol >= 0 && finalCol < BOARD_WIDTH) {
-                    boardAfterPlace[finalRow][finalCol] = cell as CellValue;
-                } else if (finalRow < 0) { 
-                    isPlacedGameOver = true;
-                }
-            }
-        });
-    });
-
-    if (isPlacedGameOver) return -Infinity; 
-
-    for (let r_idx = BOARD_HEIGHT - 1; r_idx >= 0;) {
-      if (boardAfterPlace[r_idx].every(cellVal => cellVal !== 0)) {
-        linesClearedCount++;
-        boardAfterPlace.splice(r_idx, 1);
-        boardAfterPlace.unshift(Array(BOARD_WIDTH).fill(0));
-      } else {
-        r_idx--;
-      }
-    }
-    score += linesClearedCount * 5000; 
-  
-    let aggregateHeight = 0;
-    const heights = Array(BOARD_WIDTH).fill(0);
-    for (let c = 0; c < BOARD_WIDTH; c++) {
-      for (let r_idx = 0; r_idx < BOARD_HEIGHT; r_idx++) {
-        if (boardAfterPlace[r_idx][c] !== 0) {
-          heights[c] = BOARD_HEIGHT - r_idx;
-          break;
-        }
-      }
-      aggregateHeight += heights[c];
-    }
-    score -= aggregateHeight * 10;
-  
-    let holes = 0;
-    for (let c = 0; c < BOARD_WIDTH; c++) {
-      let blockReached = false;
-      for (let r_idx = 0; r_idx < BOARD_HEIGHT; r_idx++) {
-        if (boardAfterPlace[r_idx][c] !== 0) {
-          blockReached = true;
-        } else if (blockReached && boardAfterPlace[r_idx][c] === 0) {
-          holes++;
-        }
-      }
-    }
-    score -= holes * 75; 
-  
-    let bumpiness = 0;
-    for (let c = 0; c < BOARD_WIDTH - 1; c++) {
-      bumpiness += Math.abs(heights[c] - heights[c + 1]);
-    }
-    score -= bumpiness * 3;
-    
-    return score;
-  };
-
-  const calculateBestMove = useCallback((piece: ActivePiece, currentBoard: BoardMatrix): AiMove | null => {
-    let bestMove: AiMove | null = null;
-  
-    for (let rot = 0; rot < piece.matrices.length; rot++) {
-      const currentMatrix = piece.matrices[rot];
-      let minCShape = currentMatrix[0].length;
-      let maxCShape = -1;
-      let pieceIsEmpty = true;
-      for(let r_shape = 0; r_shape < currentMatrix.length; ++r_shape) {
-          for(let c_shape = 0; c_shape < currentMatrix[r_shape].length; ++c_shape) {
-              if(currentMatrix[r_shape][c_shape] !== 0) {
-                  pieceIsEmpty = false;
-                  minCShape = Math.min(minCShape, c_shape);
-                  maxCShape = Math.max(maxCShape, c_shape);
-              }
-          }
-      }
-      if (pieceIsEmpty) continue; 
-
-      for (let col = -minCShape; col <= BOARD_WIDTH - 1 - maxCShape; col++) {
-        const testPiece: ActivePiece = {
-          ...piece,
-          rotation: rot,
-          position: {row:0, col:col} 
-        };
-  
-        let simulatedRow = 0;
-        if (checkCollision(testPiece, {row: 0, col: col}, currentBoard)) {
-            let canPlaceHigher = false;
-            for(let rOffset = -1; rOffset >= -3; rOffset--){ 
-                if(!checkCollision(testPiece, {row: rOffset, col: col}, currentBoard)){
-                    simulatedRow = rOffset;
-                    canPlaceHigher = true;
-                    break;
-                }
-            }
-            if(!canPlaceHigher && checkCollision(testPiece, {row:0, col:col}, currentBoard)) continue; 
-        }
-
-        let currentSimulatedRow = simulatedRow;
-        while (!checkCollision(testPiece, {row: currentSimulatedRow + 1, col: col}, currentBoard)) {
-            currentSimulatedRow++;
-        }
-        const finalDropRow = currentSimulatedRow;
-  
-        const scoreForMove = evaluateBoardState(currentBoard, {...testPiece, position:{row:finalDropRow, col:col}}, finalDropRow);
-  
-        if (bestMove === null || scoreForMove > bestMove.score) {
-          bestMove = { targetRotation: rot, targetCol: col, score: scoreForMove, finalRow: finalDropRow };
-        }
-      }
-    }
-    return bestMove;
-  }, [checkCollision]);
-
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [gameState, sendInput, sendKey, isAiActive, keyMap]);
 
   const executeAiStep = useCallback(() => {
     if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
 
-    if (!isAiActive || gameState !== GameState.Playing || !currentPieceRef.current || !aiCurrentBestMoveRef.current || isLineClearingAnimationActiveRef.current) {
+    const input = aiPathRef.current.shift();
+    if (!isAiActive || gameState !== GameState.Playing || !engineRef.current?.current || !input) {
       aiActionInProgressRef.current = false; 
-      aiCurrentBestMoveRef.current = null;
+      aiPathRef.current = [];
       return;
     }
 
-    const piece = currentPieceRef.current;
-    const targetMove = aiCurrentBestMoveRef.current;
-    let actionTaken = false;
-
-    if (piece.rotation !== targetMove.targetRotation) {
-      const rotatedPieceState = { ...piece, rotation: targetMove.targetRotation };
-      if (!checkCollision(rotatedPieceState, piece.position, boardRef.current)) {
-        setCurrentPiece(rotatedPieceState);
-        actionTaken = true;
-      } else {
-        const testOffsets = [-1, 1, -2, 2];
-        let kicked = false;
-        for (const offset of testOffsets) {
-          const testPosition = { ...piece.position, col: piece.position.col + offset };
-          if (!checkCollision(rotatedPieceState, testPosition, boardRef.current)) {
-            setCurrentPiece({ ...rotatedPieceState, position: testPosition });
-            actionTaken = true;
-            kicked = true;
-            break;
-          }
-        }
-        if (!kicked && (piece.shape.id === 'I' || piece.shape.id === 'L' || piece.shape.id === 'J') && piece.position.row <= 1) {
-            const upOffsets = [-1, -2]; 
-             for (const upOffset of upOffsets) {
-                const testPositionUp = { ...piece.position, row: piece.position.row + upOffset };
-                 if (!checkCollision(rotatedPieceState, testPositionUp, boardRef.current)) {
-                    setCurrentPiece({ ...rotatedPieceState, position: testPositionUp });
-                    actionTaken = true;
-                    kicked = true;
-                    break;
-                 }
-             }
-        }
-        if (!kicked) { 
-          lockPiece(currentPieceRef.current); 
-          return; 
-        }
-      }
-    }
-    else if (piece.position.col !== targetMove.targetCol) {
-      const direction = targetMove.targetCol > piece.position.col ? 1 : -1;
-      if (movePiece(0, direction)) { 
-        actionTaken = true;
-      } else { 
-          lockPiece(currentPieceRef.current); 
-          return;
-      }
-    }
-    else if (piece.position.row < targetMove.finalRow) {
-      if (movePiece(1, 0)) { 
-        actionTaken = true;
-      } else { 
-        lockPiece(currentPieceRef.current); 
-        return; 
-      }
-    }
-    else {
-      lockPiece(currentPieceRef.current);
-      return; 
+    // The path was found with the engine's own rules, so a step only fails if the board changed under it
+    if (!sendInput(input)) {
+      sendInput('hardDrop');
+      return;
     }
-
-    if (actionTaken && aiActionInProgressRef.current) { 
+    if (aiActionInProgressRef.current) {
       aiStepTimeoutRef.current = window.setTimeout(executeAiStep, AI_STEP_INTERVAL);
-    } else if (!actionTaken && aiActionInProgressRef.current) {
-        lockPiece(currentPieceRef.current);
     }
-  }, [isAiActive, gameState, checkCollision, movePiece, lockPiece, setCurrentPiece, boardRef, AI_STEP_INTERVAL]);
+  }, [isAiActive, gameState, sendInput, AI_STEP_INTERVAL]);
   
   useEffect(() => {
-    if (isLineClearingAnimationActiveRef.current) {
-        if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
-        if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-        aiActionInProgressRef.current = false;
-        aiCurrentBestMoveRef.current = null;
+    const engine = engineRef.current;
+    if (engine?.phase === 'clearing') {
+        resetAi();
         return;
     }
 
-    if (isAiActive && gameState === GameState.Playing && currentPieceRef.current && !aiActionInProgressRef.current) {
+    if (isAiActive && gameState === GameState.Playing && engine?.current && !aiActionInProgressRef.current) {
       aiActionInProgressRef.current = true;
       if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
 
-      const thinkTime = fallIntervalRef.current > 0 ? Math.min(fallIntervalRef.current / 2, 200) : 100; 
+      const fallInterval = FRAME_MS / getGravity(engine);
+      const thinkTime = fallInterval > 0 ? Math.min(fallInterval / 2, 200) : 100; 
 
       aiThinkTimeoutRef.current = window.setTimeout(() => { 
-        const piece = currentPieceRef.current;
-        const CBoard = boardRef.current;
-        if (!piece || !CBoard || !isAiActive || gameState !== GameState.Playing || isLineClearingAnimationActiveRef.current) { 
+        const latest = engineRef.current;
+        if (!latest?.current || !aiAgent || gameState !== GameState.Playing) { 
           aiActionInProgressRef.current = false;
           return;
         }
 
-        const bestMove = calculateBestMove(piece, CBoard);
-        if (bestMove) {
-          aiCurrentBestMoveRef.current = bestMove;
-          executeAiStep();
-        } else { 
-           if(currentPieceRef.current) {
-              if(!movePiece(1,0)) { 
-                lockPiece(currentPieceRef.current);
-              } else {
-                aiActionInProgressRef.current = false; 
-              }
-           } else {
-             aiActionInProgressRef.current = false;
-           }
-        }
+        aiClientRef.current?.request(aiAgent, aiInputFromEngine(latest), { timeBudget: AI_TIME_BUDGET, count: 1 }, ([bestMove]) => {
+          if (bestMove) {
+            aiPathRef.current = [...bestMove.path];
+            executeAiStep();
+          } else {
+            // Nothing to plan for: nudge the piece down, or lock it where it rests when grounded
+            aiActionInProgressRef.current = false;
+            if (!sendInput('softDrop')) sendInput('hardDrop');
+          }
+        });
       }, thinkTime);
     }
     
     return () => {
       if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
     };
-  }, [isAiActive, gameState, currentPiece, calculateBestMove, executeAiStep, lockPiece, movePiece]); 
+  }, [isAiActive, aiAgent, gameState, currentPiece, executeAiStep, sendInput, resetAi]); 
 
   useEffect(() => {
-    if (!isAiActive) { 
-      if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
-      if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-      aiActionInProgressRef.current = false;
-      aiCurrentBestMoveRef.current = null;
+    resetAi();
+  }, [aiAgent, resetAi]);
+
+  // Hints for the piece already in play when the game starts, resumes or the hint settings change
+  useEffect(() => {
+    const engine = engineRef.current;
+    if (gameState === GameState.Playing && engine) requestHints(engine);
+    else if (gameState !== GameState.Paused) {
+      hintBestRef.current = null;
+      setHintPlacements([]);
     }
-  }, [isAiActive]);
+  }, [gameState, setup, aiAgent, hints.enabled, hints.showTopThree, requestHints]);
+
+  useEffect(() => {
+    const scene = sceneRef.current;
+    const geometry = blockGeometryRef.current;
+    if (!scene || !geometry) return;
+    const group = createHintGroup(hintPlacements, hints.showTopThree, geometry, themePalette(theme));
+    scene.add(group);
+    requestRender();
+    return () => {
+      scene.remove(group);
+      disposeHintGroup(group, geometry);
+      requestRender();
+    };
+  }, [hintPlacements, hints.showTopThree, theme, requestRender]);
 
 
   useEffect(() => {
-    if (!mountRef.current) return;
+    const client = createAiClient();
+    aiClientRef.current = client;
+    return () => {
+      client.dispose();
+      aiClientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const engine = createAudioEngine();
+    audioRef.current = engine;
+    return () => {
+      engine.dispose();
+      audioRef.current = null;
+    };
+  }, []);
 
-    sceneRef.current = new THREE.Scene();
-    sceneRef.current.background = new THREE.Color(0x2d3748); 
+  useEffect(() => {
+    audioRef.current?.setSettings(audio);
+  }, [audio]);
 
-    cameraRef.current = new THREE.PerspectiveCamera(75, mountRef.current.clientWidth / mountRef.current.clientHeight, 0.1, 1000);
-    cameraRef.current.position.set(BOARD_WIDTH * BLOCK_SIZE / 2 - BLOCK_SIZE/2, BOARD_HEIGHT * BLOCK_SIZE / 4, BOARD_HEIGHT * BLOCK_SIZE * 0.75); 
+  // Music plays during a game and holds its place while paused
+  useEffect(() => {
+    audioRef.current?.setPaused(gameState === GameState.Paused);
+    if (gameState !== GameState.Paused) audioRef.current?.setMusicPlaying(gameState === GameState.Playing);
+  }, [gameState]);
 
-    rendererRef.current = new THREE.WebGLRenderer({ antialias: true });
-    rendererRef.current.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
-    rendererRef.current.setPixelRatio(window.devicePixelRatio);
-    mountRef.current.appendChild(rendererRef.current.domElement);
 
-    controlsRef.current = new OrbitControls(cameraRef.current, rendererRef.current.domElement);
-    controlsRef.current.target.set(BOARD_WIDTH * BLOCK_SIZE / 2 - BLOCK_SIZE/2, BOARD_HEIGHT * BLOCK_SIZE / 2 - BLOCK_SIZE/2, 0); 
-    controlsRef.current.enablePan = true;
-    controlsRef.current.enableZoom = true;
+  useEffect(() => {
+    if (!mountRef.current) return;
+    const mount = mountRef.current;
+
+    const scene = new THREE.Scene();
+    sceneRef.current = scene;
+
+    const preset = getCameraPreset(cameraSettingsRef.current.preset);
+    const camera = new THREE.PerspectiveCamera(preset.fov, mount.clientWidth / mount.clientHeight, 0.1, 1000);
+    camera.position.set(...preset.position);
+    cameraRef.current = camera;
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true });
+    renderer.setSize(mount.clientWidth, mount.clientHeight);
+    renderer.setPixelRatio(window.devicePixelRatio);
+    mount.appendChild(renderer.domElement);
+    rendererRef.current = renderer;
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.target.set(...preset.target);
+    controls.enablePan = true;
+    controls.enableZoom = true;
+    controls.update();
+    controls.addEventListener('change', requestRender);
+    controlsRef.current = controls;
+    const cameraRig = createCameraRig(camera, controls);
+    cameraRigRef.current = cameraRig;
+
+    const ambientLight = new THREE.AmbientLight();
+    scene.add(ambientLight);
+    const directionalLight = new THREE.DirectionalLight();
+    scene.add(directionalLight);
 
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.6);
-    sceneRef.current.add(ambientLight);
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 0.8);
-    directionalLight.position.set(5, 10, 7.5);
-    sceneRef.current.add(directionalLight);
-    
-    sceneRef.current.add(boardGroupRef.current);
-    sceneRef.current.add(currentPieceGroupRef.current);
-    
     const boardOutlineGeometry = new THREE.BoxGeometry(BOARD_WIDTH * BLOCK_SIZE, BOARD_HEIGHT * BLOCK_SIZE, BLOCK_SIZE);
     const boardOutlineEdges = new THREE.EdgesGeometry(boardOutlineGeometry);
-    const boardOutlineMaterial = new THREE.LineBasicMaterial({ color: 0xaaaaaa });
+    const boardOutlineMaterial = new THREE.LineBasicMaterial();
     const boardOutlineMesh = new THREE.LineSegments(boardOutlineEdges, boardOutlineMaterial);
     boardOutlineMesh.position.set(
         (BOARD_WIDTH / 2 - 0.5) * BLOCK_SIZE,
         (BOARD_HEIGHT / 2 - 0.5) * BLOCK_SIZE,
         -BLOCK_SIZE / 2 
     );
-    sceneRef.current.add(boardOutlineMesh);
-
-    if (!blockGeometryRef.current) {
-        blockGeometryRef.current = new THREE.BoxGeometry(BLOCK_SIZE * 0.95, BLOCK_SIZE * 0.95, BLOCK_SIZE * 0.95);
-    }
-    if (blockMaterialsRef.current.length === 0) {
-        COLORS.forEach(colorHex => {
-            blockMaterialsRef.current.push(new THREE.MeshStandardMaterial({ color: colorHex }));
-        });
-    }
-    if (!flashMaterialRef.current) {
-        flashMaterialRef.current = new THREE.MeshStandardMaterial({
-            color: 0xffffff,
-            emissive: 0xeeeeee,
-            emissiveIntensity: 1,
-            transparent: true,
-            opacity: 1,
-        });
-    }
-
+    scene.add(boardOutlineMesh);
+    const grid = new THREE.LineSegments(createGridGeometry(), new THREE.LineBasicMaterial({ transparent: true }));
+    scene.add(grid);
+
+    const decor: SceneDecor = { scene, ambient: ambientLight, directional: directionalLight, outline: boardOutlineMaterial, grid };
+    applySceneTheme(decor, themeRef.current);
+    sceneDecorRef.current = decor;
+
+    const blockGeometry = new THREE.BoxGeometry(BLOCK_SIZE * 0.95, BLOCK_SIZE * 0.95, BLOCK_SIZE * 0.95);
+    blockGeometryRef.current = blockGeometry;
+    const boardRenderer = createBoardRenderer(blockGeometry, themeRef.current);
+    scene.add(boardRenderer.group);
+    boardRendererRef.current = boardRenderer;
+    const effectsLayer = createEffectsLayer();
+    scene.add(effectsLayer.group);
+    effectsLayerRef.current = effectsLayer;
+    const shakeOffset = new THREE.Vector3();
 
     const handleResize = () => {
-      if (cameraRef.current && rendererRef.current && mountRef.current) {
-        cameraRef.current.aspect = mountRef.current.clientWidth / mountRef.current.clientHeight;
-        cameraRef.current.updateProjectionMatrix();
-        rendererRef.current.setSize(mountRef.current.clientWidth, mountRef.current.clientHeight);
-      }
+      camera.aspect = mount.clientWidth / mount.clientHeight;
+      camera.updateProjectionMatrix();
+      renderer.setSize(mount.clientWidth, mount.clientHeight);
+      requestRender();
     };
     window.addEventListener('resize', handleResize);
-    clockRef.current.start();
 
-    return () => {
-      window.removeEventListener('resize', handleResize);
-      if (rendererRef.current) rendererRef.current.dispose();
-      if (mountRef.current && rendererRef.current && mountRef.current.contains(rendererRef.current.domElement)) {
-        mountRef.current.removeChild(rendererRef.current.domElement);
+    // Drawing runs on its own loop and only when something visible changed; game logic ticks
+    // separately below, so a slow frame never holds back the game clock
+    let animationFrameId: number;
+    let viewEngine: EngineState | null = null;
+    let view: BoardView | null = null;
+    const stats = { frames: 0, draws: 0, drawTime: 0, since: performance.now() };
+    const draw = (timestamp: number) => {
+      animationFrameId = requestAnimationFrame(draw);
+      const engine = engineRef.current;
+      if (engine !== viewEngine) {
+        viewEngine = engine;
+        view = engine && { board: engine.board, current: engine.current, ghost: getGhostPiece(engine), clearingRows: engine.clearingRows };
       }
-      if (controlsRef.current) controlsRef.current.dispose();
-      
-      if (blockGeometryRef.current) {
-        blockGeometryRef.current.dispose();
-        blockGeometryRef.current = null;
+      stats.frames++;
+      if (cameraRig.update(timestamp, cameraSettingsRef.current.followPiece ? view?.current ?? null : null)) renderRequestedRef.current = true;
+      if (effectsLayer.update(timestamp)) renderRequestedRef.current = true;
+      if (boardRenderer.update(view, timestamp) || renderRequestedRef.current) {
+        renderRequestedRef.current = false;
+        const started = performance.now();
+        // The shake only lasts for this render, so the controls keep the real camera position
+        effectsLayer.shakeOffset(shakeOffset);
+        camera.position.add(shakeOffset);
+        renderer.render(scene, camera);
+        camera.position.sub(shakeOffset);
+        stats.drawTime += performance.now() - started;
+        stats.draws++;
       }
-      blockMaterialsRef.current.forEach(material => material.dispose());
-      blockMaterialsRef.current = [];
-      if (flashMaterialRef.current) {
-        flashMaterialRef.current.dispose();
-        flashMaterialRef.current = null;
+      const elapsed = timestamp - stats.since;
+      if (elapsed >= FPS_SAMPLE_INTERVAL) {
+        if (showFpsRef.current) {
+          setFrameStats({
+            fps: Math.round((stats.frames * 1000) / elapsed),
+            drawsPerSecond: Math.round((stats.draws * 1000) / elapsed),
+            drawMs: stats.draws > 0 ? stats.drawTime / stats.draws : 0,
+          });
+        }
+        Object.assign(stats, { frames: 0, draws: 0, drawTime: 0, since: timestamp });
       }
+    };
+    animationFrameId = requestAnimationFrame(draw);
+
+    return () => {
+      cancelAnimationFrame(animationFrameId);
+      window.removeEventListener('resize', handleResize);
+      controls.removeEventListener('change', requestRender);
+      cameraRig.dispose();
+      cameraRigRef.current = null;
+      controls.dispose();
+      boardRenderer.dispose();
+      boardRendererRef.current = null;
+      effectsLayer.dispose();
+      effectsLayerRef.current = null;
+      blockGeometry.dispose();
+      blockGeometryRef.current = null;
       boardOutlineGeometry.dispose();
+      boardOutlineEdges.dispose();
       boardOutlineMaterial.dispose();
-      clockRef.current.stop();
+      grid.geometry.dispose();
+      grid.material.dispose();
+      sceneDecorRef.current = null;
+      renderer.dispose();
+      if (mount.contains(renderer.domElement)) mount.removeChild(renderer.domElement);
+      sceneRef.current = null;
+      cameraRef.current = null;
+      rendererRef.current = null;
+      controlsRef.current = null;
       if (aiThinkTimeoutRef.current) clearTimeout(aiThinkTimeoutRef.current);
       if (aiStepTimeoutRef.current) clearTimeout(aiStepTimeoutRef.current);
-      if (lineClearEffectTimeoutRef.current) clearTimeout(lineClearEffectTimeoutRef.current);
     };
-  }, []); 
+  }, [requestRender]); 
 
+  // Declared after the scene setup above, which creates the board renderer
+  useEffect(() => {
+    boardRendererRef.current?.setGhostStyle(ghost);
+    requestRender();
+  }, [ghost, requestRender]);
 
   useEffect(() => {
-    if (!sceneRef.current || !cameraRef.current || !rendererRef.current || !blockGeometryRef.current || blockMaterialsRef.current.length === 0) return;
-    
-    let animationFrameId: number;
-    const animate = (timestamp: number) => {
-      animationFrameId = requestAnimationFrame(animate);
+    effectsLayerRef.current?.setSettings(effects);
+    boardRendererRef.current?.setCollapseDuration(effects.reducedMotion ? 0 : COLLAPSE_MS);
+    requestRender();
+  }, [effects, requestRender]);
 
-      if (gameState === GameState.Playing && currentPieceRef.current && !isAiActive && !isLineClearingAnimationActiveRef.current) { 
-        if (timestamp - lastFallTimeRef.current > fallIntervalRef.current) {
-          moveDown();
-          lastFallTimeRef.current = timestamp;
-        }
-      }
-      
-      while (boardGroupRef.current.children.length > 0) {
-        boardGroupRef.current.remove(boardGroupRef.current.children[0]);
-      }
-      while (currentPieceGroupRef.current.children.length > 0) {
-        currentPieceGroupRef.current.remove(currentPieceGroupRef.current.children[0]);
-      }
+  // Puts the last locked piece back to where it spawned. The restored game no longer follows from
+  // the recorded inputs, so it isn't offered as a replay.
+  useEffect(() => {
+    if (undoRequests === undoAppliedRef.current) return;
+    undoAppliedRef.current = undoRequests;
+    const snapshot = undoStackRef.current.pop();
+    if (!snapshot) return;
+    const engine: EngineState = { ...snapshot, handling: { ...snapshot.handling, held: INITIAL_HANDLING_STATE.held, shiftDirection: 0 } };
+    engineRef.current = engine;
+    spawnStateRef.current = engine;
+    recorderRef.current = null;
+    resetAi();
+    setCurrentPiece(engine.current);
+    publishPreviews(engine);
+    setScore(engine.score);
+    setLinesCleared(engine.lines);
+    setLevel(engine.level);
+    requestHints(engine);
+    requestRender();
+  }, [undoRequests, resetAi, publishPreviews, requestHints, requestRender, setScore, setLinesCleared, setLevel]);
+
+  // Garbage from the opponent joins the queue as it arrives. The total starts over with each game,
+  // so a drop only resynchronizes.
+  useEffect(() => {
+    const rows = garbageReceived - garbageAppliedRef.current;
+    garbageAppliedRef.current = garbageReceived;
+    const engine = engineRef.current;
+    if (rows <= 0 || !engine) return;
+    record(`garbage:${rows}`);
+    commit({ state: queueGarbage(engine, rows), events: [] });
+  }, [garbageReceived, record, commit]);
+
+  // Also runs on mount, where the camera already sits on the preset and the transition is a no-op
+  useEffect(() => {
+    cameraRigRef.current?.transitionTo(getCameraPreset(cameraSettings.preset), reducedMotionRef.current ? 0 : undefined);
+  }, [cameraSettings.preset, viewResets]);
 
-      boardRef.current.forEach((row, r) => {
-        row.forEach((cell, c) => {
-          if (cell !== 0 && cell < blockMaterialsRef.current.length) { 
-            let material = blockMaterialsRef.current[cell];
-             if (isLineClearingAnimationActiveRef.current && clearingRowsRef.current.includes(r)) {
-                if (flashMaterialRef.current) {
-                    material = flashMaterialRef.current;
-                    const flashProgress = (performance.now() % (LINE_CLEAR_ANIMATION_DURATION / 1.5)) / (LINE_CLEAR_ANIMATION_DURATION / 1.5); // Faster pulse
-                    const intensity = Math.sin(flashProgress * Math.PI) * 0.4 + 0.6; // Pulse between 0.6 and 1.0
-                    flashMaterialRef.current.emissiveIntensity = intensity;
-                    flashMaterialRef.current.opacity = intensity;
-                }
-            }
-            const cube = new THREE.Mesh(blockGeometryRef.current!, material); 
-            cube.position.set(
-              c * BLOCK_SIZE,
-              (BOARD_HEIGHT - 1 - r) * BLOCK_SIZE,
-              0
-            );
-            boardGroupRef.current.add(cube);
-          }
-        });
-      });
-
-      if (currentPieceRef.current) { // currentPieceRef might be null during line clear animation
-        const pieceToRender = currentPieceRef.current;
-        const matrix = pieceToRender.matrices[pieceToRender.rotation];
-        matrix.forEach((row, r) => {
-          row.forEach((cell, c) => { 
-            if (cell !== 0 && cell < blockMaterialsRef.current.length) {
-              const material = blockMaterialsRef.current[cell];
-              const cube = new THREE.Mesh(blockGeometryRef.current!, material); 
-              cube.position.set(
-                (pieceToRender.position.col + c) * BLOCK_SIZE,
-                (BOARD_HEIGHT - 1 - (pieceToRender.position.row + r)) * BLOCK_SIZE,
-                0
-              );
-              currentPieceGroupRef.current.add(cube);
-            }
-          });
-        });
+  useEffect(() => {
+    if (sceneDecorRef.current) applySceneTheme(sceneDecorRef.current, theme);
+    boardRendererRef.current?.setTheme(theme);
+    requestRender();
+  }, [theme, requestRender]);
+
+  // Game logic: fixed-timestep ticks for live play, or the replay player's clock
+  useEffect(() => {
+    if (gameState !== GameState.Playing && gameState !== GameState.Replay) return;
+    let lastTime = performance.now();
+    const step = () => {
+      const now = performance.now();
+      const delta = Math.min(Math.max(now - lastTime, 0), MAX_FRAME_DELTA);
+      lastTime = now;
+      if (gameState === GameState.Playing && engineRef.current) {
+        const gravity = !isAiActive;
+        if (isAiActive) aiAssistedRef.current = true;
+        if (gravity !== recordedGravityRef.current) {
+          recorderRef.current?.record(frameRef.current, gravity ? 'gravity:on' : 'gravity:off');
+          recordedGravityRef.current = gravity;
+        }
+        frameAccumulatorRef.current += delta;
+        while (frameAccumulatorRef.current >= FRAME_MS && engineRef.current) {
+          frameAccumulatorRef.current -= FRAME_MS;
+          frameRef.current++;
+          commit(tick(engineRef.current, FRAME_MS, gravity));
+        }
+        const latest = engineRef.current;
+        if (frameRef.current - statsPublishedFrameRef.current >= STATS_PUBLISH_FRAMES && latest && latest.phase !== 'gameOver') {
+          statsPublishedFrameRef.current = frameRef.current;
+          setLiveStats({ stats: statsRef.current, elapsedMs: latest.elapsedMs });
+        }
+      } else if (gameState === GameState.Replay && replayPlayer) {
+        replayPlayer.update(delta);
+        showReplayState(replayPlayer.engine);
       }
-      
-      if (controlsRef.current) controlsRef.current.update();
-      rendererRef.current.render(sceneRef.current, cameraRef.current);
     };
-
-    animationFrameId = requestAnimationFrame(animate);
-    return () => cancelAnimationFrame(animationFrameId);
-  }, [gameState, moveDown, isAiActive]);
-
-
-  return <div ref={mountRef} className="w-full h-full" />;
+    const intervalId = window.setInterval(step, LOGIC_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [gameState, commit, isAiActive, replayPlayer, showReplayState, setLiveStats]);
+
+
+  return (
+    <div className="relative w-full h-full">
+      <div ref={mountRef} className="w-full h-full" />
+      {showFps && frameStats && (
+        <div className="absolute top-2 left-2 px-2 py-1 bg-black bg-opacity-60 rounded font-mono text-xs text-green-300 pointer-events-none">
+          <p>{frameStats.fps} FPS</p>
+          <p>그리기 {frameStats.drawsPerSecond}/s · {frameStats.drawMs.toFixed(2)}ms</p>
+        </div>
+      )}
+    </div>
+  );
 };
 
 export default TetrisGame;
@@ -0,0 +1,193 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import TetrisGame from './TetrisGame';
+import PiecePreview from './PiecePreview';
+import { AudioSettings, CameraSettings, EffectSettings, GameResult, GameSetup, GameState, GhostSettings, HintSettings, PiecePreviews } from '../types';
+import { BOARD_HEIGHT } from '../constants';
+import { AI_AGENTS } from '../ai/agents';
+import { AiAgentConfig, AiAgentId } from '../ai/types';
+import { Theme } from '../themes';
+import { DEFAULT_KEY_MAP, KeyMap, VERSUS_KEY_HELP, VERSUS_KEY_MAPS } from './keyMaps';
+
+type PlayerControl = 'human' | AiAgentId;
+
+interface SharedBoardProps {
+  gameState: GameState;
+  setup: GameSetup | null;
+  ghost: GhostSettings;
+  showFps: boolean;
+  theme: Theme;
+  camera: CameraSettings;
+  viewResets: number;
+  effects: EffectSettings;
+  audio: AudioSettings;
+}
+
+interface VersusGameProps extends SharedBoardProps {
+  onGameOver: (result: GameResult, winner: number) => void; // The loser's result; winner is 0 or 1
+}
+
+interface PlayerBoardProps extends SharedBoardProps {
+  index: number;
+  control: PlayerControl;
+  setControl: (control: PlayerControl) => void;
+  keyMap: KeyMap;
+  keyHelp: string | null;
+  garbageReceived: number;
+  onGarbageSent: (from: number, rows: number) => void;
+  onTopOut: (loser: number, result: GameResult) => void;
+}
+
+const PLAYER_NAMES = ['1P', '2P'];
+const EMPTY_PREVIEWS: PiecePreviews = { next: [], hold: null, holdUsed: false };
+const NO_HINTS: HintSettings = { enabled: false, showTopThree: false };
+const VERSUS_PREVIEW_COUNT = 3;
+const CLEAR_LABEL_DURATION = 1500; // ms
+const ignore = () => {};
+
+const PlayerBoard: React.FC<PlayerBoardProps> = ({
+  index, control, setControl, keyMap, keyHelp, garbageReceived, onGarbageSent, onTopOut, gameState, setup, audio, theme, ...shared
+}) => {
+  const [score, setScore] = useState(0);
+  const [lines, setLines] = useState(0);
+  const [previews, setPreviews] = useState<PiecePreviews>(EMPTY_PREVIEWS);
+  const [incoming, setIncoming] = useState(0);
+  const [clearLabels, setClearLabels] = useState<string[]>([]);
+  const clearLabelTimeoutRef = useRef<number | null>(null);
+  const aiAgent = useMemo<AiAgentConfig | null>(() => (control === 'human' ? null : { id: control }), [control]);
+  // Both boards make sound, but only the first plays music
+  const boardAudio = useMemo(() => (index === 0 ? audio : { ...audio, musicVolume: 0 }), [index, audio]);
+
+  const handleScored = useCallback((labels: string[]) => {
+    setClearLabels(labels);
+    if (clearLabelTimeoutRef.current) clearTimeout(clearLabelTimeoutRef.current);
+    clearLabelTimeoutRef.current = window.setTimeout(() => setClearLabels([]), CLEAR_LABEL_DURATION);
+  }, []);
+  const handleGarbageSent = useCallback((rows: number) => onGarbageSent(index, rows), [index, onGarbageSent]);
+  const handleGameOver = useCallback((result: GameResult) => onTopOut(index, result), [index, onTopOut]);
+
+  useEffect(() => {
+    setScore(0);
+    setLines(0);
+  }, [setup]);
+
+  useEffect(() => () => {
+    if (clearLabelTimeoutRef.current) clearTimeout(clearLabelTimeoutRef.current);
+  }, []);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-1">
+      <div className="flex items-center justify-between gap-2 text-sm">
+        <span className="text-lg font-bold">{PLAYER_NAMES[index]}</span>
+        <select
+          value={control}
+          onChange={e => setControl(e.target.value as PlayerControl)}
+          className={`bg-gray-700 rounded px-2 py-1 text-white ${control !== 'human' ? 'ring-2 ring-blue-500' : ''}`}
+        >
+          <option value="human">사람</option>
+          {AI_AGENTS.map(a => <option key={a.id} value={a.id}>AI: {a.name}</option>)}
+        </select>
+      </div>
+      <div className="flex items-end gap-1">
+        <PiecePreview piece={previews.hold} size="small" dimmed={previews.holdUsed} emptyLabel="보관" theme={theme} />
+        <span className="w-2" />
+        {previews.next.slice(0, VERSUS_PREVIEW_COUNT).map((piece, i) => (
+          <PiecePreview key={i} piece={piece} size="small" theme={theme} />
+        ))}
+      </div>
+      <div className="flex flex-grow min-h-0 gap-1">
+        <div className="w-3 bg-gray-700 rounded relative" title="받을 쓰레기 줄">
+          <div
+            className="absolute bottom-0 inset-x-0 bg-red-500 rounded transition-all"
+            style={{ height: `${(Math.min(incoming, BOARD_HEIGHT) / BOARD_HEIGHT) * 100}%` }}
+          />
+        </div>
+        <div className="flex-grow relative min-w-0">
+          {clearLabels.length > 0 && (
+            <div className="absolute top-4 inset-x-0 flex flex-col items-center pointer-events-none z-20">
+              {clearLabels.map(label => (
+                <p key={label} className="text-xl md:text-2xl font-extrabold text-yellow-300 drop-shadow-lg">{label}</p>
+              ))}
+            </div>
+          )}
+          <TetrisGame
+            gameState={gameState}
+            setup={setup}
+            setScore={setScore}
+            setLinesCleared={setLines}
+            setLevel={ignore}
+            setPreviews={setPreviews}
+            onGameOver={handleGameOver}
+            onScored={handleScored}
+            onReplayReady={ignore}
+            replayPlayer={null}
+            aiAgent={aiAgent}
+            hints={NO_HINTS}
+            theme={theme}
+            undoRequests={0}
+            audio={boardAudio}
+            setHintStats={ignore}
+            setLiveStats={ignore}
+            keyMap={keyMap}
+            garbageReceived={garbageReceived}
+            onGarbageSent={handleGarbageSent}
+            setIncomingGarbage={setIncoming}
+            {...shared}
+          />
+        </div>
+      </div>
+      <p className="text-sm">
+        <span className="font-semibold">점수:</span> {score} · <span className="font-semibold">줄:</span> {lines}
+        {incoming > 0 && <span className="ml-2 text-red-400">받을 줄 {incoming}</span>}
+      </p>
+      {keyHelp && <p className="text-xs text-gray-400">{keyHelp}</p>}
+    </div>
+  );
+};
+
+// Two boards playing the same piece sequence; clears on one side send garbage to the other.
+// Both sides are played from one keyboard, or either by an AI agent.
+const VersusGame: React.FC<VersusGameProps> = ({ onGameOver, setup, ...shared }) => {
+  const [controls, setControls] = useState<[PlayerControl, PlayerControl]>(['human', 'eltetris']);
+  const [garbage, setGarbage] = useState<[number, number]>([0, 0]); // Rows received by each side
+  const finishedRef = useRef(false);
+  const humans = controls.filter(control => control === 'human').length;
+
+  useEffect(() => {
+    setGarbage([0, 0]);
+    finishedRef.current = false;
+  }, [setup]);
+
+  const sendGarbage = useCallback((from: number, rows: number) => {
+    setGarbage(([first, second]) => (from === 0 ? [first, second + rows] : [first + rows, second]));
+  }, []);
+
+  // The first board to top out loses; the other one stops with the game
+  const handleTopOut = useCallback((loser: number, result: GameResult) => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    onGameOver(result, 1 - loser);
+  }, [onGameOver]);
+
+  return (
+    <div className="w-full h-full flex gap-3">
+      {[0, 1].map(index => (
+        <PlayerBoard
+          key={index}
+          index={index}
+          control={controls[index]}
+          setControl={control => setControls(prev => (index === 0 ? [control, prev[1]] : [prev[0], control]))}
+          // A lone human player keeps the usual keys; two share the keyboard
+          keyMap={humans === 2 ? VERSUS_KEY_MAPS[index] : DEFAULT_KEY_MAP}
+          keyHelp={humans === 2 ? VERSUS_KEY_HELP[index] : null}
+          garbageReceived={garbage[index]}
+          onGarbageSent={sendGarbage}
+          onTopOut={handleTopOut}
+          setup={setup}
+          {...shared}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default VersusGame;
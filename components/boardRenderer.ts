@@ -0,0 +1,314 @@
+import * as THREE from 'three';
+import { BLOCK_SIZE, BOARD_HEIGHT, BOARD_WIDTH } from '../constants';
+import { ActivePiece, BoardMatrix, GhostSettings } from '../types';
+import { BlockPattern, Theme, themePalette } from '../themes';
+
+// Draws the board, the active piece and its ghost with a few InstancedMeshes that are created
+// once. Instances are only rewritten when the (immutable) board or piece objects change.
+
+export interface BoardView {
+  board: BoardMatrix;
+  current: ActivePiece | null;
+  ghost: ActivePiece | null;
+  clearingRows: number[]; // Flash while the line clear delay runs
+}
+
+export interface BoardRenderer {
+  group: THREE.Group;
+  // Returns true when the scene needs to be drawn again
+  update: (view: BoardView | null, time: number) => boolean;
+  setGhostStyle: (settings: GhostSettings) => void;
+  setTheme: (theme: Theme) => void;
+  setCollapseDuration: (ms: number) => void; // Rows above a clear slide down over this time, 0 snaps
+  dispose: () => void;
+}
+
+const CELL_COUNT = BOARD_WIDTH * BOARD_HEIGHT;
+const PIECE_CELLS = 4;
+const FLASH_PERIOD = 200; // ms
+const PATTERN_SIZE = 64; // px
+
+// `lift` raises the block by that many rows, for rows still sliding down after a clear
+const cellPosition = (row: number, col: number, target: THREE.Matrix4, lift = 0): THREE.Matrix4 =>
+  target.makeTranslation(col * BLOCK_SIZE, (BOARD_HEIGHT - 1 - row + lift) * BLOCK_SIZE, 0);
+
+// How many rows each row of the collapsed board fell: the number of cleared rows below where it was
+const collapseDrops = (clearedRows: number[]): number[] => {
+  const drops: number[] = [];
+  let oldRow = BOARD_HEIGHT - 1;
+  for (let row = BOARD_HEIGHT - 1; row >= 0; row--) {
+    while (clearedRows.includes(oldRow)) oldRow--;
+    drops[row] = row - oldRow;
+    oldRow--;
+  }
+  return drops;
+};
+
+const easeOutQuad = (t: number): number => 1 - (1 - t) * (1 - t);
+
+// Calls back with the board row, column and color index of every block of a piece
+const forEachPieceCell = (piece: ActivePiece, callback: (row: number, col: number, cell: number) => void) => {
+  piece.matrices[piece.rotation].forEach((cells, r) => cells.forEach((cell, c) => {
+    if (cell !== 0) callback(piece.position.row + r, piece.position.col + c, cell);
+  }));
+};
+
+// Dark marks on white: the texture multiplies the block color, so one texture suits any color
+const createPatternTexture = (pattern: BlockPattern): THREE.CanvasTexture | null => {
+  if (pattern === 'none') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = PATTERN_SIZE;
+  canvas.height = PATTERN_SIZE;
+  const context = canvas.getContext('2d')!;
+  const s = PATTERN_SIZE;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, s, s);
+  context.fillStyle = 'rgba(0, 0, 0, 0.45)';
+  context.strokeStyle = 'rgba(0, 0, 0, 0.45)';
+  context.lineWidth = s / 10;
+  switch (pattern) {
+    case 'stripes':
+    case 'bars':
+      for (let i = 0; i < 4; i++) {
+        if (pattern === 'stripes') context.fillRect(0, (i + 0.25) * (s / 4), s, s / 10);
+        else context.fillRect((i + 0.25) * (s / 4), 0, s / 10, s);
+      }
+      break;
+    case 'diagonal':
+      for (let i = -s; i < s * 2; i += s / 4) {
+        context.beginPath();
+        context.moveTo(i, 0);
+        context.lineTo(i + s, s);
+        context.stroke();
+      }
+      break;
+    case 'dots':
+      for (let y = 0; y < 3; y++) for (let x = 0; x < 3; x++) {
+        context.beginPath();
+        context.arc((x + 0.5) * (s / 3), (y + 0.5) * (s / 3), s / 12, 0, Math.PI * 2);
+        context.fill();
+      }
+      break;
+    case 'cross':
+      context.beginPath();
+      context.moveTo(s * 0.2, s * 0.2);
+      context.lineTo(s * 0.8, s * 0.8);
+      context.moveTo(s * 0.8, s * 0.2);
+      context.lineTo(s * 0.2, s * 0.8);
+      context.stroke();
+      break;
+    case 'checker':
+      for (let y = 0; y < 4; y++) for (let x = 0; x < 4; x++) {
+        if ((x + y) % 2 === 0) context.fillRect(x * (s / 4), y * (s / 4), s / 4, s / 4);
+      }
+      break;
+    case 'ring':
+      context.beginPath();
+      context.arc(s / 2, s / 2, s / 4, 0, Math.PI * 2);
+      context.stroke();
+      break;
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  return texture;
+};
+
+export const createBoardRenderer = (geometry: THREE.BoxGeometry, initialTheme: Theme): BoardRenderer => {
+  const group = new THREE.Group();
+  const matrix = new THREE.Matrix4();
+  const color = new THREE.Color();
+  let palette: THREE.Color[] = [];
+  let currentTheme: Theme | null = null;
+
+  const flashMaterial = new THREE.MeshStandardMaterial({ color: 0xffffff, emissive: 0xeeeeee, emissiveIntensity: 1, transparent: true });
+  const ghostFillMaterial = new THREE.MeshBasicMaterial({ color: 0xffffff, transparent: true, depthWrite: false });
+  const ghostLineMaterial = new THREE.LineBasicMaterial({ transparent: true });
+  const ghostEdges = new THREE.EdgesGeometry(geometry);
+
+  const createInstanced = (material: THREE.Material, count: number, colored: boolean) => {
+    const mesh = new THREE.InstancedMesh(geometry, material, count);
+    // Created up front: a color attribute added after the first draw isn't picked up by the compiled shader
+    if (colored) mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(count * 3).fill(1), 3);
+    mesh.count = 0;
+    mesh.frustumCulled = false; // The bounding sphere would have to be recomputed on every change
+    group.add(mesh);
+    return mesh;
+  };
+
+  // One material per color index, so themes can give each piece its own pattern texture.
+  // Board and active piece share the materials and get a mesh per color index each.
+  let blockMaterials: THREE.MeshStandardMaterial[] = [];
+  let boardMeshes: THREE.InstancedMesh[] = [];
+  let pieceMeshes: THREE.InstancedMesh[] = [];
+  const flashMesh = createInstanced(flashMaterial, CELL_COUNT, false);
+  const ghostFill = createInstanced(ghostFillMaterial, PIECE_CELLS, true);
+  // Line segments can't be instanced; four reusable outlines are as cheap
+  const ghostLines = Array.from({ length: PIECE_CELLS }, () => {
+    const lines = new THREE.LineSegments(ghostEdges, ghostLineMaterial);
+    lines.visible = false;
+    group.add(lines);
+    return lines;
+  });
+
+  let ghostSettings: GhostSettings | null = null;
+  let shown: BoardView | null = null;
+  let collapseDuration = 0;
+  let collapse: { start: number; drops: number[] } | null = null;
+
+  const disposeBlocks = () => {
+    [...boardMeshes, ...pieceMeshes].forEach(mesh => {
+      group.remove(mesh);
+      mesh.dispose();
+    });
+    blockMaterials.forEach(material => {
+      material.map?.dispose();
+      material.dispose();
+    });
+  };
+
+  const applyTheme = (theme: Theme) => {
+    currentTheme = theme;
+    disposeBlocks();
+    palette = themePalette(theme).map(hex => new THREE.Color(hex));
+    blockMaterials = palette.map((blockColor, index) => new THREE.MeshStandardMaterial({
+      color: blockColor,
+      metalness: theme.material.metalness,
+      roughness: theme.material.roughness,
+      emissive: blockColor,
+      emissiveIntensity: theme.material.emissive,
+      map: createPatternTexture(theme.patterns?.[index] ?? 'none'),
+    }));
+    boardMeshes = blockMaterials.map(material => createInstanced(material, CELL_COUNT, false));
+    pieceMeshes = blockMaterials.map(material => createInstanced(material, PIECE_CELLS, false));
+  };
+
+  // Writes the cells into the mesh of their color index; cells without a theme color are skipped
+  const fillBlocks = (meshes: THREE.InstancedMesh[], cells: [number, number, number][], lifts?: number[]) => {
+    meshes.forEach(mesh => {
+      mesh.count = 0;
+    });
+    cells.forEach(([row, col, cell]) => {
+      const mesh = meshes[cell];
+      if (!mesh) return;
+      mesh.setMatrixAt(mesh.count++, cellPosition(row, col, matrix, lifts?.[row]));
+    });
+    meshes.forEach(mesh => {
+      mesh.instanceMatrix.needsUpdate = true;
+    });
+  };
+
+  const drawPiece = (piece: ActivePiece | null) => {
+    const cells: [number, number, number][] = [];
+    if (piece) forEachPieceCell(piece, (row, col, cell) => cells.push([row, col, cell]));
+    fillBlocks(pieceMeshes, cells);
+  };
+
+  const drawBoard = (board: BoardMatrix, clearingRows: number[], lifts?: number[]) => {
+    const cells: [number, number, number][] = [];
+    let flashing = 0;
+    board.forEach((row, r) => row.forEach((cell, col) => {
+      if (cell === 0) return;
+      if (clearingRows.includes(r)) flashMesh.setMatrixAt(flashing++, cellPosition(r, col, matrix));
+      else cells.push([r, col, cell]);
+    }));
+    fillBlocks(boardMeshes, cells, lifts);
+    flashMesh.count = flashing;
+    flashMesh.instanceMatrix.needsUpdate = true;
+  };
+
+  const drawGhost = (ghost: ActivePiece | null, current: ActivePiece | null) => {
+    // Hidden once the piece itself is on the landing row
+    const visible = ghostSettings?.enabled && ghost && ghost.position.row !== current?.position.row ? ghost : null;
+    const wireframe = ghostSettings?.style === 'wireframe';
+    let count = 0;
+    if (visible && !wireframe) {
+      forEachPieceCell(visible, (row, col, cell) => {
+        ghostFill.setMatrixAt(count, cellPosition(row, col, matrix));
+        ghostFill.setColorAt(count, palette[cell] ?? color.set(0xffffff));
+        count++;
+      });
+    }
+    ghostFill.count = count;
+    ghostFill.instanceMatrix.needsUpdate = true;
+    if (ghostFill.instanceColor) ghostFill.instanceColor.needsUpdate = true;
+    ghostLines.forEach(lines => {
+      lines.visible = false;
+    });
+    if (visible && wireframe) {
+      let index = 0;
+      forEachPieceCell(visible, (row, col, cell) => {
+        const lines = ghostLines[index++];
+        lines.position.setFromMatrixPosition(cellPosition(row, col, matrix));
+        lines.visible = true;
+        ghostLineMaterial.color.copy(palette[cell] ?? color.set(0xffffff));
+      });
+    }
+  };
+
+  const redraw = () => {
+    drawBoard(shown?.board ?? [], shown?.clearingRows ?? []);
+    drawPiece(shown?.current ?? null);
+    drawGhost(shown?.ghost ?? null, shown?.current ?? null);
+  };
+
+  applyTheme(initialTheme);
+
+  return {
+    group,
+    update: (view, time) => {
+      let changed = false;
+      const boardChanged = view?.board !== shown?.board || view?.clearingRows !== shown?.clearingRows;
+      if (boardChanged) {
+        const collapsed = view && shown && shown.clearingRows.length > 0 && view.clearingRows.length === 0;
+        collapse = collapsed && collapseDuration > 0 ? { start: time, drops: collapseDrops(shown!.clearingRows) } : null;
+      }
+      if (collapse) {
+        const progress = Math.min((time - collapse.start) / collapseDuration, 1);
+        const remaining = 1 - easeOutQuad(progress);
+        drawBoard(view?.board ?? [], view?.clearingRows ?? [], collapse.drops.map(drop => drop * remaining));
+        if (progress >= 1) collapse = null;
+        changed = true;
+      } else if (boardChanged) {
+        drawBoard(view?.board ?? [], view?.clearingRows ?? []);
+        changed = true;
+      }
+      if (view?.current !== shown?.current) {
+        drawPiece(view?.current ?? null);
+        changed = true;
+      }
+      if (changed || view?.ghost?.position.row !== shown?.ghost?.position.row) {
+        drawGhost(view?.ghost ?? null, view?.current ?? null);
+        changed = true;
+      }
+      shown = view;
+
+      if (flashMesh.count > 0) {
+        const pulse = Math.sin(((time % FLASH_PERIOD) / FLASH_PERIOD) * Math.PI) * 0.4 + 0.6; // 0.6..1.0
+        flashMaterial.emissiveIntensity = pulse;
+        flashMaterial.opacity = pulse;
+        changed = true;
+      }
+      return changed;
+    },
+    setGhostStyle: settings => {
+      ghostSettings = settings;
+      ghostFillMaterial.opacity = settings.opacity;
+      ghostLineMaterial.opacity = settings.opacity;
+      if (shown) drawGhost(shown.ghost, shown.current);
+    },
+    setCollapseDuration: ms => {
+      collapseDuration = ms;
+    },
+    setTheme: theme => {
+      if (theme === currentTheme) return;
+      applyTheme(theme);
+      redraw();
+    },
+    dispose: () => {
+      disposeBlocks();
+      [flashMesh, ghostFill].forEach(mesh => mesh.dispose());
+      [flashMaterial, ghostFillMaterial, ghostLineMaterial].forEach(material => material.dispose());
+      ghostEdges.dispose();
+    },
+  };
+};
@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { BLOCK_SIZE, BOARD_HEIGHT, BOARD_WIDTH } from '../constants';
+import { ActivePiece, CameraPresetId } from '../types';
+
+// Moves the camera between named viewpoints with an eased transition, and optionally tilts it
+// toward the falling piece. OrbitControls stays in charge otherwise; dragging cancels a transition.
+
+export interface CameraPreset {
+  id: CameraPresetId;
+  name: string;
+  key: string; // Hotkey
+  position: [number, number, number];
+  target: [number, number, number];
+  fov: number;
+}
+
+const CENTER_X = (BOARD_WIDTH / 2 - 0.5) * BLOCK_SIZE;
+const CENTER_Y = (BOARD_HEIGHT / 2 - 0.5) * BLOCK_SIZE;
+const HEIGHT = BOARD_HEIGHT * BLOCK_SIZE;
+
+export const CAMERA_PRESETS: CameraPreset[] = [
+  { id: 'default', name: '기본', key: '1', position: [CENTER_X, HEIGHT / 4, HEIGHT * 0.75], target: [CENTER_X, CENTER_Y, 0], fov: 75 },
+  // A narrow field of view from far away flattens the perspective almost to an orthographic view
+  { id: 'front', name: '정면', key: '2', position: [CENTER_X, CENTER_Y, HEIGHT * 3.3], target: [CENTER_X, CENTER_Y, 0], fov: 20 },
+  { id: 'isometric', name: '등각', key: '3', position: [CENTER_X + HEIGHT * 0.8, CENTER_Y + HEIGHT * 0.8, HEIGHT * 0.8], target: [CENTER_X, CENTER_Y, 0], fov: 40 },
+  { id: 'dramatic', name: '로우 앵글', key: '4', position: [CENTER_X - HEIGHT * 0.25, -HEIGHT * 0.15, HEIGHT * 0.55], target: [CENTER_X, CENTER_Y * 1.2, 0], fov: 70 },
+  // Straight down would hit the orbit pole, so the camera leans slightly toward the front
+  { id: 'topDown', name: '위에서', key: '5', position: [CENTER_X, HEIGHT * 1.9, HEIGHT * 0.15], target: [CENTER_X, CENTER_Y, 0], fov: 50 },
+];
+
+export const getCameraPreset = (id: CameraPresetId): CameraPreset =>
+  CAMERA_PRESETS.find(preset => preset.id === id) ?? CAMERA_PRESETS[0];
+
+export interface CameraRig {
+  transitionTo: (preset: CameraPreset, duration?: number) => void;
+  // Returns true when the camera moved and the scene needs to be drawn again
+  update: (time: number, follow: ActivePiece | null) => boolean;
+  dispose: () => void;
+}
+
+const TRANSITION_MS = 600;
+const FOLLOW_STRENGTH = 0.25; // Share of the piece's distance from the board center the view turns toward
+const FOLLOW_SMOOTHING = 200; // ms, time constant of the follow motion
+const FOLLOW_EPSILON = 0.001;
+
+const easeInOutCubic = (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+const pieceCenter = (piece: ActivePiece, target: THREE.Vector2): THREE.Vector2 => {
+  let sumCol = 0;
+  let sumRow = 0;
+  let count = 0;
+  piece.matrices[piece.rotation].forEach((cells, r) => cells.forEach((cell, c) => {
+    if (cell === 0) return;
+    sumCol += piece.position.col + c;
+    sumRow += piece.position.row + r;
+    count++;
+  }));
+  if (count === 0) return target.set(CENTER_X, CENTER_Y);
+  return target.set((sumCol / count) * BLOCK_SIZE, (BOARD_HEIGHT - 1 - sumRow / count) * BLOCK_SIZE);
+};
+
+export const createCameraRig = (camera: THREE.PerspectiveCamera, controls: OrbitControls): CameraRig => {
+  let transition: {
+    start: number | null; // Set on the first update, so the duration counts from the first drawn frame
+    duration: number;
+    fromPosition: THREE.Vector3;
+    fromTarget: THREE.Vector3;
+    fromFov: number;
+    toPosition: THREE.Vector3;
+    toTarget: THREE.Vector3;
+    toFov: number;
+  } | null = null;
+  // Follow shifts the orbit target, which turns the camera without moving it
+  const followOffset = new THREE.Vector2();
+  const desiredOffset = new THREE.Vector2();
+  let lastTime: number | null = null;
+
+  const cancelTransition = () => {
+    transition = null;
+  };
+  controls.addEventListener('start', cancelTransition);
+
+  const updateFollow = (time: number, follow: ActivePiece | null): boolean => {
+    const delta = lastTime === null ? 0 : time - lastTime;
+    if (follow) {
+      pieceCenter(follow, desiredOffset).sub(new THREE.Vector2(CENTER_X, CENTER_Y)).multiplyScalar(FOLLOW_STRENGTH);
+    } else {
+      desiredOffset.set(0, 0);
+    }
+    if (followOffset.distanceTo(desiredOffset) < FOLLOW_EPSILON) return false;
+    const previousX = followOffset.x;
+    const previousY = followOffset.y;
+    followOffset.lerp(desiredOffset, 1 - Math.exp(-delta / FOLLOW_SMOOTHING));
+    controls.target.x += followOffset.x - previousX;
+    controls.target.y += followOffset.y - previousY;
+    controls.update();
+    return true;
+  };
+
+  return {
+    transitionTo: (preset, duration = TRANSITION_MS) => {
+      transition = {
+        start: null,
+        duration,
+        fromPosition: camera.position.clone(),
+        fromTarget: controls.target.clone(),
+        fromFov: camera.fov,
+        toPosition: new THREE.Vector3(...preset.position),
+        toTarget: new THREE.Vector3(...preset.target),
+        toFov: preset.fov,
+      };
+      // The transition lands on the preset's own target; following starts over from there
+      followOffset.set(0, 0);
+    },
+    update: (time, follow) => {
+      let moved = false;
+      if (transition) {
+        transition.start ??= time;
+        const progress = transition.duration > 0 ? Math.min((time - transition.start) / transition.duration, 1) : 1;
+        const eased = easeInOutCubic(progress);
+        camera.position.lerpVectors(transition.fromPosition, transition.toPosition, eased);
+        controls.target.lerpVectors(transition.fromTarget, transition.toTarget, eased);
+        camera.fov = transition.fromFov + (transition.toFov - transition.fromFov) * eased;
+        camera.updateProjectionMatrix();
+        controls.update();
+        if (progress >= 1) transition = null;
+        moved = true;
+      } else {
+        moved = updateFollow(time, follow);
+      }
+      lastTime = time;
+      return moved;
+    },
+    dispose: () => {
+      controls.removeEventListener('start', cancelTransition);
+    },
+  };
+};
@@ -0,0 +1,151 @@
+import * as THREE from 'three';
+import { BLOCK_SIZE, BOARD_HEIGHT } from '../constants';
+import { EffectSettings } from '../types';
+
+// Particles and camera shake. Particles live in one preallocated Points object; the shake is an
+// offset the draw loop adds to the camera for a single render, so OrbitControls never sees it.
+
+export interface EffectCell {
+  row: number;
+  col: number;
+  color: number;
+}
+
+export interface EffectsLayer {
+  group: THREE.Group;
+  // strength: 1 for a single, higher for bigger clears; scaled by the intensity setting
+  burst: (cells: EffectCell[], strength: number) => void;
+  shake: (amount: number) => void; // In blocks
+  // Advances particles and shake; returns true while something is moving
+  update: (time: number) => boolean;
+  shakeOffset: (target: THREE.Vector3) => THREE.Vector3;
+  setSettings: (settings: EffectSettings) => void;
+  dispose: () => void;
+}
+
+const MAX_PARTICLES = 2000;
+const PARTICLES_PER_CELL = 6; // At strength 1 and full intensity
+const PARTICLE_LIFE = 900; // ms, varied by up to ±30%
+const PARTICLE_SPEED = 6; // Blocks per second
+const GRAVITY = 18; // Blocks per second squared
+const SHAKE_DECAY = 120; // ms, time constant
+const SHAKE_EPSILON = 0.002;
+
+export const createEffectsLayer = (): EffectsLayer => {
+  const group = new THREE.Group();
+  const positions = new Float32Array(MAX_PARTICLES * 3);
+  const colors = new Float32Array(MAX_PARTICLES * 3);
+  const velocities = new Float32Array(MAX_PARTICLES * 3);
+  const baseColors = new Float32Array(MAX_PARTICLES * 3);
+  const life = new Float32Array(MAX_PARTICLES); // ms left
+  const lifeSpan = new Float32Array(MAX_PARTICLES);
+  const geometry = new THREE.BufferGeometry();
+  const positionAttribute = new THREE.BufferAttribute(positions, 3).setUsage(THREE.DynamicDrawUsage);
+  const colorAttribute = new THREE.BufferAttribute(colors, 3).setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute('position', positionAttribute);
+  geometry.setAttribute('color', colorAttribute);
+  geometry.setDrawRange(0, 0);
+  // Additive blending: fading a particle's color to black fades it out
+  const material = new THREE.PointsMaterial({
+    size: BLOCK_SIZE * 0.25,
+    vertexColors: true,
+    transparent: true,
+    depthWrite: false,
+    blending: THREE.AdditiveBlending,
+  });
+  const points = new THREE.Points(geometry, material);
+  points.frustumCulled = false;
+  group.add(points);
+
+  const color = new THREE.Color();
+  let settings: EffectSettings = { intensity: 1, reducedMotion: false };
+  let count = 0; // Live particles are packed at the front of the buffers
+  let shakeAmount = 0;
+  let lastTime: number | null = null;
+
+  const spawn = (x: number, y: number, hex: number, speed: number) => {
+    if (count >= MAX_PARTICLES) return;
+    const i = count++;
+    // Mostly upward and out of the board, toward the camera
+    const angle = Math.random() * Math.PI * 2;
+    const velocity = speed * (0.4 + Math.random() * 0.6);
+    positions.set([x + (Math.random() - 0.5) * BLOCK_SIZE, y + (Math.random() - 0.5) * BLOCK_SIZE, (Math.random() - 0.5) * BLOCK_SIZE], i * 3);
+    velocities.set([Math.cos(angle) * velocity, Math.abs(Math.sin(angle)) * velocity, Math.random() * velocity * 0.8], i * 3);
+    color.set(hex);
+    baseColors.set([color.r, color.g, color.b], i * 3);
+    lifeSpan[i] = PARTICLE_LIFE * (0.7 + Math.random() * 0.6);
+    life[i] = lifeSpan[i];
+  };
+
+  // Moves the last live particle into slot i
+  const remove = (i: number) => {
+    const last = --count;
+    if (i === last) return;
+    positions.copyWithin(i * 3, last * 3, last * 3 + 3);
+    velocities.copyWithin(i * 3, last * 3, last * 3 + 3);
+    baseColors.copyWithin(i * 3, last * 3, last * 3 + 3);
+    life[i] = life[last];
+    lifeSpan[i] = lifeSpan[last];
+  };
+
+  return {
+    group,
+    burst: (cells, strength) => {
+      if (settings.reducedMotion || settings.intensity <= 0) return;
+      const perCell = Math.max(1, Math.round(PARTICLES_PER_CELL * strength * settings.intensity));
+      const speed = PARTICLE_SPEED * Math.sqrt(strength) * (0.5 + settings.intensity * 0.5);
+      cells.forEach(({ row, col, color: hex }) => {
+        const x = col * BLOCK_SIZE;
+        const y = (BOARD_HEIGHT - 1 - row) * BLOCK_SIZE;
+        for (let n = 0; n < perCell; n++) spawn(x, y, hex, speed);
+      });
+    },
+    shake: amount => {
+      if (settings.reducedMotion) return;
+      shakeAmount = Math.max(shakeAmount, amount * settings.intensity * BLOCK_SIZE);
+    },
+    update: time => {
+      const delta = lastTime === null ? 0 : Math.min(time - lastTime, 100);
+      lastTime = time;
+      const active = count > 0 || shakeAmount > 0;
+      shakeAmount = shakeAmount * Math.exp(-delta / SHAKE_DECAY);
+      if (shakeAmount < SHAKE_EPSILON) shakeAmount = 0;
+      if (count === 0) return active;
+
+      const seconds = delta / 1000;
+      for (let i = count - 1; i >= 0; i--) {
+        life[i] -= delta;
+        if (life[i] <= 0) {
+          remove(i);
+          continue;
+        }
+        velocities[i * 3 + 1] -= GRAVITY * seconds;
+        for (let axis = 0; axis < 3; axis++) positions[i * 3 + axis] += velocities[i * 3 + axis] * seconds;
+      }
+      for (let i = 0; i < count; i++) {
+        const fade = life[i] / lifeSpan[i];
+        for (let channel = 0; channel < 3; channel++) colors[i * 3 + channel] = baseColors[i * 3 + channel] * fade;
+      }
+      geometry.setDrawRange(0, count);
+      positionAttribute.needsUpdate = true;
+      colorAttribute.needsUpdate = true;
+      return true;
+    },
+    shakeOffset: target => {
+      if (shakeAmount === 0) return target.set(0, 0, 0);
+      return target.set((Math.random() - 0.5) * 2 * shakeAmount, (Math.random() - 0.5) * 2 * shakeAmount, 0);
+    },
+    setSettings: next => {
+      settings = next;
+      if (next.reducedMotion) {
+        count = 0;
+        shakeAmount = 0;
+        geometry.setDrawRange(0, 0);
+      }
+    },
+    dispose: () => {
+      geometry.dispose();
+      material.dispose();
+    },
+  };
+};
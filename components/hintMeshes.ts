@@ -0,0 +1,79 @@
+import * as THREE from 'three';
+import { BLOCK_SIZE, BOARD_HEIGHT } from '../constants';
+import { AiPlacement } from '../ai/types';
+
+// Translucent outline pieces for the AI coach. The best suggestion is the most visible one;
+// alternatives fade out by rank and, when labelled, carry their evaluation score.
+
+const RANK_OPACITY = [0.35, 0.18, 0.12];
+const LABEL_SCALE = BLOCK_SIZE * 2.4;
+
+const createLabel = (text: string, color: string): THREE.Sprite => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 64;
+  const context = canvas.getContext('2d')!;
+  context.fillStyle = 'rgba(17, 24, 39, 0.8)';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = color;
+  context.font = 'bold 32px sans-serif';
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, canvas.width / 2, canvas.height / 2);
+  const sprite = new THREE.Sprite(new THREE.SpriteMaterial({ map: new THREE.CanvasTexture(canvas), depthTest: false }));
+  sprite.scale.set(LABEL_SCALE, LABEL_SCALE / 4, 1);
+  return sprite;
+};
+
+// `palette` holds the theme's piece colors by color index
+export const createHintGroup = (placements: AiPlacement[], labelled: boolean, geometry: THREE.BoxGeometry, palette: number[]): THREE.Group => {
+  const group = new THREE.Group();
+  const edges = new THREE.EdgesGeometry(geometry);
+
+  placements.forEach(({ piece, score, useHold }, rank) => {
+    const matrix = piece.matrices[piece.rotation];
+    const color = palette[matrix.flat().find(cell => cell !== 0) ?? 0] ?? 0xffffff;
+    const opacity = RANK_OPACITY[rank] ?? RANK_OPACITY[RANK_OPACITY.length - 1];
+    const fill = new THREE.MeshBasicMaterial({ color, transparent: true, opacity, depthWrite: false });
+    const outline = new THREE.LineBasicMaterial({ color: rank === 0 ? 0xffffff : color, transparent: true, opacity: Math.min(1, opacity * 2.5) });
+    let topRow = BOARD_HEIGHT;
+    let sumCol = 0;
+    let count = 0;
+
+    matrix.forEach((row, r) => row.forEach((cell, c) => {
+      if (cell === 0) return;
+      const position = new THREE.Vector3((piece.position.col + c) * BLOCK_SIZE, (BOARD_HEIGHT - 1 - (piece.position.row + r)) * BLOCK_SIZE, 0);
+      const block = new THREE.Mesh(geometry, fill);
+      block.position.copy(position);
+      const lines = new THREE.LineSegments(edges, outline);
+      lines.position.copy(position);
+      group.add(block, lines);
+      topRow = Math.min(topRow, piece.position.row + r);
+      sumCol += piece.position.col + c;
+      count++;
+    }));
+
+    if (labelled && count > 0) {
+      const text = `${rank + 1}. ${Number.isFinite(score) ? score.toFixed(1) : '-∞'}${useHold ? ' (보관)' : ''}`;
+      const label = createLabel(text, rank === 0 ? '#ffffff' : '#d1d5db');
+      label.position.set((sumCol / count) * BLOCK_SIZE, (BOARD_HEIGHT - topRow + 0.3) * BLOCK_SIZE, BLOCK_SIZE);
+      group.add(label);
+    }
+  });
+  return group;
+};
+
+// Frees what createHintGroup allocated; the block geometry is shared and stays
+export const disposeHintGroup = (group: THREE.Group, geometry: THREE.BoxGeometry): void => {
+  const disposed = new Set<{ dispose: () => void }>();
+  group.traverse(object => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.LineSegments) {
+      if (object.geometry !== geometry) disposed.add(object.geometry);
+      disposed.add(object.material as THREE.Material);
+    } else if (object instanceof THREE.Sprite) {
+      object.material.map?.dispose();
+      disposed.add(object.material);
+    }
+  });
+  disposed.forEach(resource => resource.dispose());
+};
@@ -0,0 +1,41 @@
+import { EngineInput } from '../engine/types';
+import { HeldKey } from '../engine/handling';
+
+// Keyboard bindings by KeyboardEvent.code, so they stay on the same keys whatever the input
+// language, and two players can share one keyboard.
+export interface KeyMap {
+  held: Record<string, HeldKey>; // Auto-repeat under the game's own DAS/ARR timing rather than the OS key repeat
+  inputs: Record<string, EngineInput>;
+}
+
+export const DEFAULT_KEY_MAP: KeyMap = {
+  held: { ArrowLeft: 'left', ArrowRight: 'right', ArrowDown: 'softDrop' },
+  inputs: {
+    ArrowUp: 'rotateCW',
+    KeyX: 'rotateCW',
+    KeyZ: 'rotateCCW',
+    ControlLeft: 'rotateCCW',
+    ControlRight: 'rotateCCW',
+    KeyC: 'hold',
+    ShiftLeft: 'hold',
+    ShiftRight: 'hold',
+    Space: 'hardDrop',
+  },
+};
+
+// Split keyboard for two human players: letters on the left, arrows on the right
+export const VERSUS_KEY_MAPS: [KeyMap, KeyMap] = [
+  {
+    held: { KeyA: 'left', KeyD: 'right', KeyS: 'softDrop' },
+    inputs: { KeyW: 'rotateCW', KeyQ: 'rotateCCW', KeyE: 'hold', Space: 'hardDrop' },
+  },
+  {
+    held: { ArrowLeft: 'left', ArrowRight: 'right', ArrowDown: 'softDrop' },
+    inputs: { ArrowUp: 'rotateCW', Slash: 'rotateCCW', ShiftRight: 'hold', Enter: 'hardDrop' },
+  },
+];
+
+export const VERSUS_KEY_HELP: [string, string] = [
+  'A D 이동 · S 내림 · W Q 회전 · E 보관 · 스페이스 빠른 내림',
+  '← → 이동 · ↓ 내림 · ↑ / 회전 · 오른쪽 Shift 보관 · Enter 빠른 내림',
+];
@@ -1,10 +1,15 @@
 
-import { TetrominoShape } from './types';
+import { AudioSettings, CameraSettings, EffectSettings, GhostSettings, TetrominoShape } from './types';
 
 export const BOARD_WIDTH = 10;
 export const BOARD_HEIGHT = 20;
 export const BLOCK_SIZE = 1; // For Three.js rendering
 
+export const DEFAULT_GHOST_SETTINGS: GhostSettings = { enabled: true, style: 'translucent', opacity: 0.3 };
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = { preset: 'default', followPiece: false };
+export const DEFAULT_EFFECT_SETTINGS: EffectSettings = { intensity: 0.7, reducedMotion: false };
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { musicVolume: 0.5, effectsVolume: 0.7, muted: false };
+
 export const COLORS: number[] = [
   0x000000,    // 0: Empty (not used for pieces)
   0xFF0000,    // 1: I (Red) - Adjusted for better visuals
@@ -14,9 +19,13 @@ export const COLORS: number[] = [
   0xFF00FF,    // 5: S (Magenta)
   0x00FFFF,    // 6: Z (Cyan)
   0xFFA500,    // 7: T (Orange)
+  0x808080,    // 8: Garbage (rows pushed up from the bottom)
 ];
 
+export const GARBAGE_CELL = 8;
+
 // Tetromino shapes defined by their 0-rotation matrix and color index
+// The 0-rotation matrices are the SRS spawn orientations (flat side down, pointing up)
 // colorIndex corresponds to an index in COLORS array (1-7)
 const I_SHAPE: TetrominoShape = {
   id: 'I',
@@ -25,12 +34,12 @@ const I_SHAPE: TetrominoShape = {
 };
 const L_SHAPE: TetrominoShape = {
   id: 'L',
-  matrix: [[0,2,0],[0,2,0],[0,2,2]],
+  matrix: [[0,0,2],[2,2,2],[0,0,0]],
   colorIndex: 2
 };
 const J_SHAPE: TetrominoShape = {
   id: 'J',
-  matrix: [[0,3,0],[0,3,0],[3,3,0]],
+  matrix: [[3,0,0],[3,3,3],[0,0,0]],
   colorIndex: 3
 };
 const O_SHAPE: TetrominoShape = {
@@ -56,9 +65,8 @@ const T_SHAPE: TetrominoShape = {
 
 export const TETROMINOES: TetrominoShape[] = [I_SHAPE, L_SHAPE, J_SHAPE, O_SHAPE, S_SHAPE, Z_SHAPE, T_SHAPE];
 
-export const INITIAL_FALL_INTERVAL = 1000; // ms
-export const LEVEL_INTERVAL_DECREMENT = 50; // ms reduction per level
 export const LINES_PER_LEVEL = 10;
+export const MAX_PREVIEW_COUNT = 6;
 
 // Helper to generate all rotations for a tetromino matrix
 export const getRotations = (matrix: number[][]): number[][][] => {
@@ -77,3 +85,9 @@ export const getRotations = (matrix: number[][]): number[][][] => {
   }
   return rotations;
 };
+
+export const getTetromino = (id: string): TetrominoShape => {
+  const shape = TETROMINOES.find(t => t.id === id);
+  if (!shape) throw new Error(`Unknown tetromino: ${id}`);
+  return shape;
+};
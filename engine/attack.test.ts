@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { attackLines } from './attack';
+
+const clear = (lines: number, tSpin: 'none' | 'mini' | 'full' = 'none', perfectClear = false) => ({ lines, tSpin, perfectClear });
+
+describe('attackLines', () => {
+  it('sends nothing for singles and locks without lines', () => {
+    expect(attackLines(clear(1), 0, false)).toBe(0);
+    expect(attackLines(clear(0, 'full'), 0, false)).toBe(0);
+  });
+
+  it('sends more for Tetrises and T-spins', () => {
+    expect(attackLines(clear(4), 0, false)).toBe(4);
+    expect(attackLines(clear(2, 'full'), 0, false)).toBe(4);
+    expect(attackLines(clear(2, 'mini'), 0, false)).toBe(1);
+  });
+
+  it('adds back-to-back, combo and perfect clear bonuses', () => {
+    expect(attackLines(clear(4), 0, true)).toBe(5);
+    expect(attackLines(clear(2), 3, false)).toBe(2);
+    expect(attackLines(clear(2), 50, false)).toBe(6);
+    expect(attackLines(clear(4, 'none', true), 0, false)).toBe(14);
+  });
+});
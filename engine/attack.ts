@@ -0,0 +1,32 @@
+import { ClearInfo } from './scoring';
+
+// Garbage lines a clear sends to the opponent in versus play, guideline style.
+
+export interface AttackTable {
+  lineClear: number[]; // Indexed by lines cleared, 0-4
+  tSpin: number[];
+  tSpinMini: number[];
+  backToBack: number; // Extra lines for a back-to-back difficult clear
+  combo: number[]; // Extra lines by combo count; the last entry holds for longer chains
+  perfectClear: number; // Sent on top of the clear itself
+}
+
+export const ATTACK_TABLE: AttackTable = {
+  lineClear: [0, 0, 1, 2, 4],
+  tSpin: [0, 2, 4, 6, 6],
+  tSpinMini: [0, 0, 1, 2, 2],
+  backToBack: 1,
+  combo: [0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  perfectClear: 10,
+};
+
+// `combo` and `backToBack` as the scoring rules worked them out for this clear
+export const attackLines = (clear: ClearInfo, combo: number, backToBack: boolean, table: AttackTable = ATTACK_TABLE): number => {
+  const { lines, tSpin, perfectClear } = clear;
+  if (lines === 0) return 0;
+  const base = tSpin === 'full' ? table.tSpin[lines] : tSpin === 'mini' ? table.tSpinMini[lines] : table.lineClear[lines];
+  return base
+    + (backToBack ? table.backToBack : 0)
+    + table.combo[Math.min(Math.max(combo, 0), table.combo.length - 1)]
+    + (perfectClear ? table.perfectClear : 0);
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyBoard, createPiece, findFullRows, getDropRow, insertGarbage, raisePiece, removeRows } from './board';
+import { BoardMatrix } from '../types';
+import { getTetromino } from '../constants';
+
+// Rows written top to bottom with '#' for a block; they fill the bottom of an empty board
+const boardOf = (rows: string[]): BoardMatrix => {
+  const board = createEmptyBoard();
+  rows.forEach((row, i) => {
+    board[board.length - rows.length + i] = row.split('').map(cell => cell === '#' ? 1 : 0);
+  });
+  return board;
+};
+
+const rowsOf = (board: BoardMatrix): string[] => board.map(row => row.map(cell => cell === 0 ? '.' : '#').join(''));
+
+describe('insertGarbage', () => {
+  it('adds one row per hole at the bottom and pushes the stack up', () => {
+    const board = boardOf(['#.........']);
+    const { board: risen, overflow } = insertGarbage(board, [3, 7]);
+    expect(overflow).toBe(false);
+    expect(rowsOf(risen).slice(-3)).toEqual(['#.........', '###.######', '#######.##']);
+  });
+
+  it('reports overflow when blocks are pushed off the top', () => {
+    const board = boardOf(['#.........', ...Array<string>(19).fill('..........')]);
+    expect(insertGarbage(board, [0]).overflow).toBe(true);
+  });
+});
+
+describe('line clears', () => {
+  it('finds full rows bottom-most first and removes them', () => {
+    const board = boardOf(['##########', '#.........', '##########']);
+    expect(findFullRows(board)).toEqual([19, 17]);
+    expect(rowsOf(removeRows(board, [19, 17])).slice(-2)).toEqual(['..........', '#.........']);
+  });
+});
+
+describe('piece placement', () => {
+  it('drops a piece onto the stack', () => {
+    const piece = createPiece(getTetromino('O'));
+    expect(getDropRow(piece, boardOf(['....##....']))).toBe(17);
+  });
+
+  it('lifts a piece only as far as the risen stack needs', () => {
+    const piece = { ...createPiece(getTetromino('O')), position: { row: 10, col: 0 } };
+    const board = boardOf(Array<string>(9).fill('#.........'));
+    expect(raisePiece(piece, board, 3).position.row).toBe(9);
+  });
+});
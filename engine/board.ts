@@ -0,0 +1,102 @@
+import { ActivePiece, BoardMatrix, CellValue, Position, TetrominoShape } from '../types';
+import { BOARD_HEIGHT, BOARD_WIDTH, GARBAGE_CELL, getRotations } from '../constants';
+
+export const createEmptyBoard = (): BoardMatrix => Array(BOARD_HEIGHT).fill(null).map(() => Array(BOARD_WIDTH).fill(0));
+
+export const createPiece = (shape: TetrominoShape): ActivePiece => {
+  const matrices = getRotations(shape.matrix.map(row => row.map(cell => cell > 0 ? shape.colorIndex : 0)));
+  return {
+    shape,
+    matrices,
+    rotation: 0,
+    position: { row: 0, col: Math.floor((BOARD_WIDTH - matrices[0][0].length) / 2) },
+  };
+};
+
+export const checkCollision = (piece: ActivePiece, pos: Position, board: BoardMatrix): boolean => {
+  const matrix = piece.matrices[piece.rotation];
+  for (let r = 0; r < matrix.length; r++) {
+    for (let c = 0; c < matrix[r].length; c++) {
+      if (matrix[r][c] !== 0) {
+        const boardRow = pos.row + r;
+        const boardCol = pos.col + c;
+        if (
+          boardRow >= BOARD_HEIGHT ||
+          boardCol < 0 ||
+          boardCol >= BOARD_WIDTH ||
+          (boardRow >= 0 && board[boardRow] && board[boardRow][boardCol] !== 0)
+        ) {
+          return true;
+        }
+      }
+    }
+  }
+  return false;
+};
+
+// Row the piece would come to rest on if dropped straight down from its current position
+export const getDropRow = (piece: ActivePiece, board: BoardMatrix): number => {
+  let row = piece.position.row;
+  while (!checkCollision(piece, { row: row + 1, col: piece.position.col }, board)) {
+    row++;
+  }
+  return row;
+};
+
+// True when any block of the piece sits above the visible board
+export const isAboveBoard = (piece: ActivePiece): boolean => {
+  const matrix = piece.matrices[piece.rotation];
+  return matrix.some((row, r) => row.some(cell => cell !== 0 && piece.position.row + r < 0));
+};
+
+export const mergePiece = (board: BoardMatrix, piece: ActivePiece): BoardMatrix => {
+  const newBoard = board.map(row => [...row]);
+  const matrix = piece.matrices[piece.rotation];
+  matrix.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      if (cell !== 0) {
+        const boardRow = piece.position.row + r;
+        const boardCol = piece.position.col + c;
+        if (boardRow >= 0 && boardRow < BOARD_HEIGHT && boardCol >= 0 && boardCol < BOARD_WIDTH) {
+          newBoard[boardRow][boardCol] = cell as CellValue;
+        }
+      }
+    });
+  });
+  return newBoard;
+};
+
+// Full rows, bottom-most first
+export const findFullRows = (board: BoardMatrix): number[] => {
+  const rows: number[] = [];
+  for (let r = BOARD_HEIGHT - 1; r >= 0; r--) {
+    if (board[r].every(cell => cell !== 0)) rows.push(r);
+  }
+  return rows;
+};
+
+export const removeRows = (board: BoardMatrix, rows: number[]): BoardMatrix => {
+  const remaining = board.filter((_, r) => !rows.includes(r)).map(row => [...row]);
+  while (remaining.length < BOARD_HEIGHT) {
+    remaining.unshift(Array(BOARD_WIDTH).fill(0));
+  }
+  return remaining;
+};
+
+// Pushes the stack up by one garbage row per hole column, adding them at the bottom. overflow is
+// true when blocks were pushed off the top.
+export const insertGarbage = (board: BoardMatrix, holes: number[]): { board: BoardMatrix; overflow: boolean } => {
+  const garbage = holes.map(hole => Array.from({ length: BOARD_WIDTH }, (_, c) => (c === hole ? 0 : GARBAGE_CELL)));
+  const overflow = board.slice(0, holes.length).some(row => row.some(cell => cell !== 0));
+  return { board: [...board.slice(holes.length).map(row => [...row]), ...garbage], overflow };
+};
+
+// Lifts a piece the least it takes to clear the board after garbage rose by `rows`. Lifting by
+// `rows` always works, as the stack under the piece moved up by the same amount.
+export const raisePiece = (piece: ActivePiece, board: BoardMatrix, rows: number): ActivePiece => {
+  for (let lift = 0; lift < rows; lift++) {
+    const position = { row: piece.position.row - lift, col: piece.position.col };
+    if (!checkCollision(piece, position, board)) return { ...piece, position };
+  }
+  return { ...piece, position: { row: piece.position.row - rows, col: piece.position.col } };
+};
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest';
+import { applyInput, createGame, queueGarbage, tick } from './engine';
+import { EngineEvent, EngineInput, EngineOptions, EngineState } from './types';
+import { createEmptyBoard, getDropRow } from './board';
+import { createSequenceGenerator } from './randomizer';
+import { DEFAULT_HANDLING } from './handling';
+import { FRAME_MS } from './gravity';
+import { BoardMatrix } from '../types';
+
+// Rows written top to bottom with '#' for a block; they fill the bottom of an empty board
+const boardOf = (rows: string[]): BoardMatrix => {
+  const board = createEmptyBoard();
+  rows.forEach((row, i) => {
+    board[board.length - rows.length + i] = row.split('').map(cell => cell === '#' ? 1 : 0);
+  });
+  return board;
+};
+
+const rowsOf = (board: BoardMatrix): string[] => board.map(row => row.map(cell => cell === 0 ? '.' : '#').join(''));
+
+// A game on `board` whose pieces come in the given order
+const gameOn = (board: BoardMatrix, pieces: string[], options: Partial<EngineOptions> = {}): EngineState => ({
+  ...createGame({ seed: 1, lineClearDelay: 0, generator: createSequenceGenerator(pieces), ...options }),
+  board,
+});
+
+const play = (state: EngineState, inputs: EngineInput[]): { state: EngineState; events: EngineEvent[] } =>
+  inputs.reduce(({ state, events }, input) => {
+    const step = applyInput(state, input);
+    return { state: step.state, events: [...events, ...step.events] };
+  }, { state, events: [] as EngineEvent[] });
+
+const runFrames = (state: EngineState, frames: number): { state: EngineState; events: EngineEvent[] } => {
+  let next = state;
+  const events: EngineEvent[] = [];
+  for (let i = 0; i < frames; i++) {
+    const step = tick(next, FRAME_MS);
+    next = step.state;
+    events.push(...step.events);
+  }
+  return { state: next, events };
+};
+
+describe('locking', () => {
+  it('locks a hard-dropped piece on the floor and spawns the next piece', () => {
+    const { state, events } = play(gameOn(createEmptyBoard(), ['O']), ['hardDrop']);
+    expect(events.map(event => event.type)).toEqual(['hardDropped', 'pieceLocked', 'pieceSpawned']);
+    expect(rowsOf(state.board).slice(-2)).toEqual(['....##....', '....##....']);
+    expect(state.current?.position.row).toBe(0);
+  });
+
+  it('clears full rows and moves the stack down', () => {
+    const board = boardOf(['#.........', '####..####', '####..####']);
+    const { state, events } = play(gameOn(board, ['O']), ['hardDrop']);
+    expect(events).toContainEqual({ type: 'linesCleared', rows: [19, 18], count: 2, tSpin: 'none', perfectClear: false });
+    expect(state.lines).toBe(2);
+    expect(state.score).toBe(300 + 18 * 2);
+    expect(rowsOf(state.board).slice(-1)).toEqual(['#.........']);
+  });
+
+  it('keeps cleared rows on the board until the clear delay has passed', () => {
+    const board = boardOf(['####..####', '####..####']);
+    const { state } = play(gameOn(board, ['O'], { lineClearDelay: 300 }), ['hardDrop']);
+    expect(state.phase).toBe('clearing');
+    expect(state.current).toBeNull();
+    expect(tick(state, 200).state.phase).toBe('clearing');
+    const cleared = tick(state, 300);
+    expect(cleared.state.phase).toBe('playing');
+    expect(cleared.events.map(event => event.type)).toEqual(['pieceSpawned']);
+    expect(rowsOf(cleared.state.board).every(row => row === '..........')).toBe(true);
+  });
+
+  it('scores a T-spin double rotated into its slot', () => {
+    const board = boardOf(['#.........', '...#######', '#.########']);
+    let { state } = play(gameOn(board, ['T', 'O']), ['rotateCW', 'moveLeft', 'moveLeft', 'moveLeft']);
+    const piece = state.current!;
+    ({ state } = play(state, Array<EngineInput>(getDropRow(piece, state.board) - piece.position.row).fill('softDrop')));
+    const { events } = play(state, ['rotateCW', 'hardDrop']);
+    expect(events).toContainEqual({ type: 'linesCleared', rows: [19, 18], count: 2, tSpin: 'full', perfectClear: false });
+    expect(events).toContainEqual(expect.objectContaining({ type: 'scored', labels: ['T-SPIN DOUBLE'] }));
+  });
+
+  it('ends the game when the next piece has no room', () => {
+    const board = boardOf(Array<string>(19).fill('#########.'));
+    const { state, events } = play(gameOn(board, ['O']), ['hardDrop']);
+    expect(events).toContainEqual({ type: 'gameOver', reason: 'topOut' });
+    expect(state.phase).toBe('gameOver');
+    expect(state.current).toBeNull();
+  });
+});
+
+describe('applyInput', () => {
+  it('returns the same state when the input has no effect', () => {
+    const atWall = play(gameOn(createEmptyBoard(), ['O']), Array<EngineInput>(5).fill('moveLeft')).state;
+    expect(atWall.current!.position.col).toBe(0);
+    expect(applyInput(atWall, 'moveLeft').state).toBe(atWall);
+  });
+
+  it('locks a piece soft-dropped on the floor straight away without lock delay', () => {
+    const options = { handling: { ...DEFAULT_HANDLING, lockDelay: 0 } };
+    const grounded = play(gameOn(createEmptyBoard(), ['O'], options), Array<EngineInput>(18).fill('softDrop')).state;
+    expect(grounded.current!.position.row).toBe(18);
+    expect(applyInput(grounded, 'softDrop').events.map(event => event.type)).toEqual(['pieceLocked', 'pieceSpawned']);
+  });
+});
+
+describe('tick', () => {
+  it('locks a grounded piece once the lock delay runs out', () => {
+    const options = { handling: { ...DEFAULT_HANDLING, lockDelay: 500 } };
+    const grounded = play(gameOn(createEmptyBoard(), ['O', 'T'], options), Array<EngineInput>(18).fill('softDrop')).state;
+    expect(grounded.current!.position.row).toBe(18);
+    expect(tick(grounded, 300).events).not.toContainEqual(expect.objectContaining({ type: 'pieceLocked' }));
+    expect(tick(grounded, 500).events).toContainEqual(expect.objectContaining({ type: 'pieceLocked' }));
+  });
+
+
+  it('drops the piece one row per second at level 1', () => {
+    const game = gameOn(createEmptyBoard(), ['T']);
+    const row = game.current!.position.row;
+    expect(runFrames(game, 30).state.current!.position.row).toBe(row);
+    expect(runFrames(game, 90).state.current!.position.row).toBe(row + 1);
+  });
+
+  it('leaves the piece alone with gravity switched off', () => {
+    const game = gameOn(createEmptyBoard(), ['T']);
+    let state = game;
+    for (let i = 0; i < 120; i++) state = tick(state, FRAME_MS, false).state;
+    expect(state.current!.position).toEqual(game.current!.position);
+    expect(state.elapsedMs).toBeCloseTo(120 * FRAME_MS);
+  });
+
+  it('ends timed modes when the clock runs out', () => {
+    const { state, events } = tick(gameOn(createEmptyBoard(), ['T'], { mode: 'ultra' }), 2 * 60 * 1000);
+    expect(events).toEqual([{ type: 'gameOver', reason: 'timeUp' }]);
+    expect(state.elapsedMs).toBe(2 * 60 * 1000);
+  });
+});
+
+describe('20G', () => {
+  const board = boardOf(Array<string>(4).fill('######....'));
+  // A puzzle board is there before the first piece spawns, so it lands on the stack
+  const masterOn = (pieces: string[]): EngineState => createGame({
+    seed: 1,
+    mode: 'master',
+    generator: createSequenceGenerator(pieces),
+    puzzle: { id: 'test', name: '', description: '', board, pieces, goal: { type: 'clearLines', lines: 100 } },
+  });
+
+  it('puts a new piece on the stack as it spawns', () => {
+    const { state } = play(gameOn(board, ['O', 'T'], { mode: 'master' }), ['hardDrop']);
+    expect(state.current!.shape.id).toBe('T');
+    expect(state.current!.position.row).toBe(getDropRow(state.current!, state.board));
+    expect(state.current!.position.row).toBeGreaterThan(10);
+  });
+
+  it('drops the piece again after every move', () => {
+    const game = masterOn(['T']);
+    const rows = [1, 2, 3].map(moves => play(game, Array<EngineInput>(moves).fill('moveRight')).state.current!.position.row);
+    expect(rows).toEqual([14, 14, 18]);
+  });
+});
+
+describe('versus garbage', () => {
+  it('raises queued garbage when a piece locks without clearing', () => {
+    const game = queueGarbage(gameOn(createEmptyBoard(), ['O', 'T'], { mode: 'versus' }), 2);
+    const { state, events } = play(game, ['hardDrop']);
+    expect(events).toContainEqual({ type: 'garbageAdded', rows: 2 });
+    expect(state.incomingGarbage).toBe(0);
+    expect(rowsOf(state.board).slice(-4, -2)).toEqual(['....##....', '....##....']);
+    expect(rowsOf(state.board).slice(-2).every(row => row.split('#').length - 1 === 9)).toBe(true);
+  });
+
+  it('cancels incoming garbage with an attack and sends the rest', () => {
+    const board = boardOf(['#.........', ...Array<string>(4).fill('#########.')]);
+    const game = queueGarbage(gameOn(board, ['I', 'O'], { mode: 'versus' }), 1);
+    const { state, events } = play(game, ['rotateCW', 'moveRight', 'moveRight', 'moveRight', 'moveRight', 'hardDrop']);
+    expect(events).toContainEqual({ type: 'garbageSent', rows: 3 });
+    expect(events).not.toContainEqual(expect.objectContaining({ type: 'garbageAdded' }));
+    expect(state.incomingGarbage).toBe(0);
+  });
+});
@@ -0,0 +1,472 @@
+import { ActivePiece } from '../types';
+import { BOARD_WIDTH, getTetromino, GARBAGE_CELL, MAX_PREVIEW_COUNT, LINES_PER_LEVEL } from '../constants';
+import { EngineEvent, EngineInput, EngineOptions, EngineState, EngineStep, GameSettings } from './types';
+import { DEFAULT_HANDLING, HeldKey, INITIAL_HANDLING_STATE } from './handling';
+import { GeneratorState, PieceGenerator, bagGenerator, createSequenceGenerator, getGenerator } from './randomizer';
+import { nextInt, randomSeed } from './random';
+import { RotationDirection, rotatePiece } from './rotation';
+import { INITIAL_SCORING_STATE, detectTSpin, dropPoints, getScoringTable, scoreClear } from './scoring';
+import { DEFAULT_GAME_MODE, getGameMode } from './modes';
+import { FRAME_MS, INSTANT_GRAVITY, gravityAt } from './gravity';
+import { isPuzzleSolved } from './puzzle';
+import { attackLines } from './attack';
+import {
+  checkCollision, createEmptyBoard, createPiece, findFullRows, getDropRow, insertGarbage, isAboveBoard, mergePiece, raisePiece, removeRows,
+} from './board';
+
+// Headless game rules. Every function takes a state and returns a new one together with
+// the events it produced; the input state is never mutated, so callers can keep snapshots.
+
+const DEFAULT_OPTIONS: Omit<EngineOptions, 'seed'> = {
+  startLevel: 1,
+  lineClearDelay: 300,
+  generator: bagGenerator,
+  rotationSystem: 'srs',
+  previewCount: 1,
+  scoringTable: 'guideline',
+  handling: DEFAULT_HANDLING,
+  mode: DEFAULT_GAME_MODE,
+  puzzle: null,
+  gravity: null,
+};
+
+// Rows per frame at the current level, on the settings' gravity curve or else the game mode's
+export const getGravity = (state: EngineState): number =>
+  gravityAt(state.options.gravity ?? getGameMode(state.options.mode).gravityCurve, state.level);
+
+const drawPiece = (generator: PieceGenerator, randomizer: GeneratorState): [ActivePiece, GeneratorState] => {
+  const { id, state } = generator.next(randomizer);
+  return [createPiece(getTetromino(id)), state];
+};
+
+// Garbage holes are drawn from the seed too, salted so they don't mirror the piece sequence's draws
+const GARBAGE_SEED_SALT = 0x9e3779b9;
+
+// Raises the stack by `rows` garbage rows with a hole in a random column each, lifting the
+// active piece only as far as it has to
+const addGarbage = (state: EngineState, rows: number, events: EngineEvent[]): EngineState => {
+  let garbageRng = state.garbageRng;
+  const holes: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    let hole: number;
+    [hole, garbageRng] = nextInt(garbageRng, BOARD_WIDTH);
+    holes.push(hole);
+  }
+  const { board, overflow } = insertGarbage(state.board, holes);
+  events.push({ type: 'garbageAdded', rows });
+  if (overflow) {
+    events.push({ type: 'gameOver', reason: 'topOut' });
+    return { ...state, board, garbageRng, phase: 'gameOver', current: null };
+  }
+  if (!state.current) return { ...state, board, garbageRng };
+  const current = raisePiece(state.current, board, rows);
+  const lift = state.current.position.row - current.position.row;
+  return { ...state, board, garbageRng, current, handling: { ...state.handling, lowestRow: state.handling.lowestRow - lift } };
+};
+
+// At 20G a piece is on the stack before it can be moved, and back on it after every move. That
+// holds with gravity switched off too, so the AI steers under the same rules as a player.
+export const hasInstantGravity = (state: EngineState): boolean =>
+  getGameMode(state.options.mode).gravity && getGravity(state) >= INSTANT_GRAVITY;
+
+const instantLanding = (state: EngineState, piece: ActivePiece): ActivePiece => {
+  if (!hasInstantGravity(state)) return piece;
+  return { ...piece, position: { ...piece.position, row: getDropRow(piece, state.board) } };
+};
+
+// Queues garbage sent by the opponent; it rises when a piece next locks without clearing lines
+export const queueGarbage = (state: EngineState, rows: number): EngineState =>
+  state.phase === 'gameOver' ? state : { ...state, incomingGarbage: state.incomingGarbage + rows };
+
+// Without an explicit seed a random one is picked; it is kept in options so the game can be reproduced
+export const createGame = (options: Partial<EngineOptions> = {}): EngineState => {
+  const fullOptions = { ...DEFAULT_OPTIONS, seed: randomSeed(), ...options };
+  fullOptions.previewCount = Math.min(Math.max(fullOptions.previewCount, 1), MAX_PREVIEW_COUNT);
+  const { generator } = fullOptions;
+  let [current, randomizer] = drawPiece(generator, generator.create(fullOptions.seed));
+  const queue: ActivePiece[] = [];
+  while (queue.length < fullOptions.previewCount) {
+    let piece: ActivePiece;
+    [piece, randomizer] = drawPiece(generator, randomizer);
+    queue.push(piece);
+  }
+  const state: EngineState = {
+    options: fullOptions,
+    phase: 'playing',
+    board: fullOptions.puzzle ? fullOptions.puzzle.board.map(row => [...row]) : createEmptyBoard(),
+    current,
+    queue,
+    hold: null,
+    holdUsed: false,
+    randomizer,
+    score: 0,
+    scoring: INITIAL_SCORING_STATE,
+    lastKick: null,
+    lines: 0,
+    level: fullOptions.startLevel,
+    fallProgress: 0,
+    handling: { ...INITIAL_HANDLING_STATE, lowestRow: current.position.row },
+    clearingRows: [],
+    clearTimer: 0,
+    elapsedMs: 0,
+    garbageRng: (fullOptions.seed ^ GARBAGE_SEED_SALT) >>> 0,
+    garbageTimer: 0,
+    incomingGarbage: 0,
+  };
+  const { startingGarbage } = getGameMode(fullOptions.mode);
+  const started = startingGarbage > 0 ? addGarbage(state, startingGarbage, []) : state;
+  if (!started.current) return started;
+  const landed = instantLanding(started, started.current);
+  return { ...started, current: landed, handling: { ...started.handling, lowestRow: landed.position.row } };
+};
+
+export const createGameFromSettings = (settings: GameSettings): EngineState => createGame({
+  generator: settings.puzzle ? createSequenceGenerator(settings.puzzle.pieces) : getGenerator(settings.randomizer),
+  seed: settings.seed,
+  rotationSystem: settings.rotationSystem,
+  previewCount: settings.previewCount,
+  scoringTable: settings.scoringTable,
+  handling: settings.handling,
+  mode: settings.mode,
+  puzzle: settings.puzzle ?? null,
+  gravity: settings.gravity ?? null,
+});
+
+// Pieces of a puzzle's sequence not yet taken from the queue. The sequence generator keeps
+// cycling, so the queue holds repeats past this point that never come into play.
+const puzzlePiecesLeft = (state: EngineState): number =>
+  state.options.puzzle ? state.options.puzzle.pieces.length - (state.randomizer.index - state.queue.length) : Infinity;
+
+// The next queue as the player and the AI see it, which ends with a puzzle's last piece
+export const getUpcomingPieces = (state: EngineState): ActivePiece[] =>
+  state.queue.slice(0, Math.max(0, puzzlePiecesLeft(state)));
+
+// Modes without game over start again on an empty board; the score and lines carry on
+const resetBoard = (state: EngineState, events: EngineEvent[]): EngineState => {
+  events.push({ type: 'boardReset' });
+  return { ...state, board: createEmptyBoard() };
+};
+
+const spawnPiece = (state: EngineState, piece: ActivePiece, events: EngineEvent[]): EngineState => {
+  if (checkCollision(piece, piece.position, state.board)) {
+    if (!getGameMode(state.options.mode).topOut) return spawnPiece(resetBoard(state, events), piece, events);
+    events.push({ type: 'gameOver', reason: 'topOut' });
+    return { ...state, phase: 'gameOver', current: null };
+  }
+  const spawned = instantLanding(state, piece);
+  events.push({ type: 'pieceSpawned', piece: spawned });
+  const handling = { ...state.handling, lockTimer: 0, lockResets: 0, lowestRow: spawned.position.row };
+  return { ...state, phase: 'playing', current: spawned, fallProgress: 0, handling };
+};
+
+const spawnNext = (state: EngineState, events: EngineEvent[]): EngineState => {
+  if (puzzlePiecesLeft(state) <= 0) {
+    // A held piece is still playable once the sequence is used up
+    if (state.hold) return spawnPiece({ ...state, hold: null, holdUsed: true }, createPiece(state.hold.shape), events);
+    events.push({ type: 'gameOver', reason: 'outOfPieces' });
+    return { ...state, phase: 'gameOver', current: null };
+  }
+  const [piece, ...rest] = state.queue;
+  const [drawn, randomizer] = drawPiece(state.options.generator, state.randomizer);
+  return spawnPiece({ ...state, queue: [...rest, drawn], randomizer }, piece, events);
+};
+
+// Swaps the active piece with the hold slot, or stashes it and takes the next piece when empty
+const holdPiece = (state: EngineState, events: EngineEvent[]): EngineState => {
+  if (state.holdUsed) return state;
+  const held = createPiece(state.current!.shape);
+  events.push({ type: 'pieceHeld', piece: held });
+  const stashed: EngineState = { ...state, hold: held, holdUsed: true, current: null };
+  if (!state.hold) return spawnNext(stashed, events);
+  return spawnPiece(stashed, createPiece(state.hold.shape), events);
+};
+
+const lockPiece = (state: EngineState, piece: ActivePiece, events: EngineEvent[]): EngineState => {
+  const tSpin = detectTSpin(piece, state.board, state.lastKick);
+  const board = mergePiece(state.board, piece);
+  events.push({ type: 'pieceLocked', piece });
+
+  const mode = getGameMode(state.options.mode);
+  if (isAboveBoard(piece)) {
+    if (!mode.topOut) return spawnNext(resetBoard({ ...state, current: null, holdUsed: false, lastKick: null }, events), events);
+    events.push({ type: 'gameOver', reason: 'topOut' });
+    return { ...state, board, phase: 'gameOver', current: null };
+  }
+
+  const fullRows = findFullRows(board);
+  const count = fullRows.length;
+  const remaining = removeRows(board, fullRows);
+  const perfectClear = count > 0 && remaining.every(row => row.every(cell => cell === 0));
+  const table = getScoringTable(state.options.scoringTable);
+  const result = scoreClear(table, { lines: count, tSpin, perfectClear }, state.level, state.scoring);
+  if (result.points > 0 || result.labels.length > 0) {
+    events.push({ type: 'scored', points: result.points, labels: result.labels, combo: result.scoring.combo, backToBack: result.backToBack });
+  }
+  // An attack first cancels garbage on its way in; the rest goes to the opponent
+  const attack = mode.attacks ? attackLines({ lines: count, tSpin, perfectClear }, result.scoring.combo, result.backToBack) : 0;
+  const cancelled = Math.min(attack, state.incomingGarbage);
+  if (attack > cancelled) events.push({ type: 'garbageSent', rows: attack - cancelled });
+  const scored: EngineState = {
+    ...state,
+    board,
+    current: null,
+    holdUsed: false,
+    lastKick: null,
+    score: state.score + result.points,
+    scoring: result.scoring,
+    incomingGarbage: state.incomingGarbage - cancelled,
+  };
+
+  if (count === 0) {
+    if (scored.incomingGarbage === 0) return spawnNext(scored, events);
+    const risen = addGarbage({ ...scored, incomingGarbage: 0 }, scored.incomingGarbage, events);
+    return risen.phase === 'gameOver' ? risen : spawnNext(risen, events);
+  }
+
+  const lines = state.lines + count;
+  const level = Math.min(Math.max(state.level, Math.floor(lines / LINES_PER_LEVEL) + 1), mode.maxLevel ?? Infinity);
+  events.push({ type: 'linesCleared', rows: fullRows, count, tSpin, perfectClear });
+  if (level > state.level) events.push({ type: 'levelUp', level });
+
+  const dug = mode.digGoal && !remaining.some(row => row.includes(GARBAGE_CELL));
+  const { puzzle } = state.options;
+  const solved = !!puzzle && isPuzzleSolved(puzzle.goal, { count, tSpin, perfectClear }, lines);
+  if ((mode.lineGoal !== null && lines >= mode.lineGoal) || dug || solved) {
+    // The clock stops on the clearing piece; the rows go at once so the final board shows the result
+    events.push({ type: 'gameOver', reason: 'goalReached' });
+    return { ...scored, lines, level, board: remaining, phase: 'gameOver' };
+  }
+
+  const clearing: EngineState = {
+    ...scored,
+    lines,
+    level,
+    clearingRows: fullRows,
+    clearTimer: state.options.lineClearDelay,
+  };
+  if (clearing.clearTimer > 0) return { ...clearing, phase: 'clearing' };
+  return finishClear(clearing, events);
+};
+
+const finishClear = (state: EngineState, events: EngineEvent[]): EngineState =>
+  spawnNext({ ...state, board: removeRows(state.board, state.clearingRows), clearingRows: [], clearTimer: 0 }, events);
+
+const tryMove = (state: EngineState, dRow: number, dCol: number): EngineState => {
+  const piece = state.current!;
+  const position = { row: piece.position.row + dRow, col: piece.position.col + dCol };
+  if (checkCollision(piece, position, state.board)) return state;
+  return { ...state, current: { ...piece, position }, lastKick: null };
+};
+
+const tryRotate = (state: EngineState, direction: RotationDirection): EngineState => {
+  const result = rotatePiece(state.current!, direction, state.board, state.options.rotationSystem);
+  if (!result) return state;
+  return { ...state, current: result.piece, lastKick: result.kickIndex };
+};
+
+const isGrounded = (state: EngineState): boolean => {
+  const piece = state.current!;
+  return checkCollision(piece, { row: piece.position.row + 1, col: piece.position.col }, state.board);
+};
+
+// A successful move or rotation on the ground restarts the lock delay, a limited number of times
+const withLockReset = (before: EngineState, after: EngineState): EngineState => {
+  const { handling } = after;
+  if (after === before || handling.lockTimer === 0 || handling.lockResets >= after.options.handling.lockResetLimit) return after;
+  return { ...after, handling: { ...handling, lockTimer: 0, lockResets: handling.lockResets + 1 } };
+};
+
+// A piece that falls after a move or rotation reaches a new lowest row, and is no longer spinning
+const landAfterMove = (state: EngineState): EngineState => {
+  const piece = state.current!;
+  const landed = instantLanding(state, piece);
+  const row = landed.position.row;
+  if (row === piece.position.row) return state;
+  const handling = row > state.handling.lowestRow
+    ? { ...state.handling, lockTimer: 0, lockResets: 0, lowestRow: row }
+    : { ...state.handling, lockTimer: 0 };
+  return { ...state, current: landed, lastKick: null, handling };
+};
+
+const shift = (state: EngineState, direction: number): EngineState => withLockReset(state, landAfterMove(tryMove(state, 0, direction)));
+
+const rotate = (state: EngineState, direction: RotationDirection): EngineState => withLockReset(state, landAfterMove(tryRotate(state, direction)));
+
+// Moves the piece one row down; reaching a new lowest row gives back all lock resets
+const descend = (state: EngineState, softDrop: boolean): EngineState => {
+  const moved = tryMove(state, 1, 0);
+  if (moved === state) return state;
+  const row = moved.current!.position.row;
+  const handling = row > state.handling.lowestRow
+    ? { ...moved.handling, lockTimer: 0, lockResets: 0, lowestRow: row }
+    : { ...moved.handling, lockTimer: 0 };
+  const points = softDrop ? dropPoints(getScoringTable(state.options.scoringTable), 1, false) : 0;
+  return { ...moved, handling, score: moved.score + points };
+};
+
+// Infinite soft drop: straight to the floor, but the piece stays movable
+const sonicDrop = (state: EngineState): EngineState => {
+  let next = state;
+  for (let moved = descend(next, true); moved !== next; moved = descend(next, true)) next = moved;
+  return next;
+};
+
+// Where the current piece would lock on a hard drop, for drawing the ghost piece
+export const getGhostPiece = (state: EngineState): ActivePiece | null => {
+  const piece = state.current;
+  if (!piece) return null;
+  return { ...piece, position: { ...piece.position, row: getDropRow(piece, state.board) } };
+};
+
+const hardDrop = (state: EngineState, events: EngineEvent[]): EngineState => {
+  const piece = state.current!;
+  const landed = getGhostPiece(state)!;
+  const distance = landed.position.row - piece.position.row;
+  const dropped: EngineState = {
+    ...state,
+    score: state.score + dropPoints(getScoringTable(state.options.scoringTable), distance, true),
+    lastKick: distance > 0 ? null : state.lastKick,
+  };
+  events.push({ type: 'hardDropped', piece: landed, distance });
+  return lockPiece(dropped, landed, events);
+};
+
+// Applies one discrete input. Returns the same state object when the input had no effect.
+// Held keys with auto-repeat go through pressKey and releaseKey instead.
+export const applyInput = (state: EngineState, input: EngineInput): EngineStep => {
+  const events: EngineEvent[] = [];
+  if (state.phase !== 'playing' || !state.current) return { state, events };
+
+  switch (input) {
+    case 'moveLeft':
+      return { state: shift(state, -1), events };
+    case 'moveRight':
+      return { state: shift(state, 1), events };
+    case 'rotateCW':
+      return { state: rotate(state, 1), events };
+    case 'rotateCCW':
+      return { state: rotate(state, -1), events };
+    case 'softDrop': {
+      const moved = descend(state, true);
+      if (moved !== state) return { state: { ...moved, fallProgress: 0 }, events };
+      if (state.options.handling.lockDelay > 0) return { state, events };
+      return { state: lockPiece(state, state.current, events), events };
+    }
+    case 'hardDrop':
+      return { state: hardDrop(state, events), events };
+    case 'hold':
+      return { state: holdPiece(state, events), events };
+  }
+};
+
+export const pressKey = (state: EngineState, key: HeldKey): EngineStep => {
+  const events: EngineEvent[] = [];
+  const held = { ...state.handling.held, [key]: true };
+  if (key === 'softDrop') {
+    let next: EngineState = { ...state, handling: { ...state.handling, held } };
+    if (next.phase === 'playing' && next.current) {
+      next = state.options.handling.infiniteSoftDrop ? sonicDrop(next) : { ...descend(next, true), fallProgress: 0 };
+    }
+    return { state: next, events };
+  }
+
+  const direction = key === 'left' ? -1 : 1;
+  const next: EngineState = { ...state, handling: { ...state.handling, held, shiftDirection: direction, dasTimer: 0, arrTimer: 0 } };
+  if (next.phase !== 'playing' || !next.current) return { state: next, events };
+  return { state: shift(next, direction), events };
+};
+
+export const releaseKey = (state: EngineState, key: HeldKey): EngineStep => {
+  const held = { ...state.handling.held, [key]: false };
+  let { shiftDirection, dasTimer, arrTimer } = state.handling;
+  if (key !== 'softDrop' && shiftDirection === (key === 'left' ? -1 : 1)) {
+    // Fall back to the other direction if it is still held, with a fresh DAS
+    shiftDirection = held.left ? -1 : held.right ? 1 : 0;
+    dasTimer = 0;
+    arrTimer = 0;
+  }
+  return { state: { ...state, handling: { ...state.handling, held, shiftDirection, dasTimer, arrTimer } }, events: [] };
+};
+
+const autoShift = (state: EngineState, deltaMs: number): EngineState => {
+  const { shiftDirection: direction, dasTimer: previousDas } = state.handling;
+  if (direction === 0) return state;
+  const { das, arr } = state.options.handling;
+  const dasTimer = previousDas + deltaMs;
+  let arrTimer = state.handling.arrTimer;
+  let next = state;
+  if (dasTimer >= das) {
+    if (previousDas < das) {
+      next = shift(next, direction); // DAS just charged
+      arrTimer = 0;
+    } else {
+      arrTimer += deltaMs;
+    }
+    if (arr === 0) {
+      for (let moved = shift(next, direction); moved !== next; moved = shift(next, direction)) next = moved;
+    } else {
+      for (; arrTimer >= arr; arrTimer -= arr) next = shift(next, direction);
+    }
+  }
+  return { ...next, handling: { ...next.handling, dasTimer, arrTimer } };
+};
+
+// Advances game time. Gravity can be switched off, e.g. while the AI is steering the piece;
+// the lock delay only runs with gravity, so a steered piece locks on the AI's hard drop.
+export const tick = (previous: EngineState, deltaMs: number, applyGravity = true): EngineStep => {
+  const events: EngineEvent[] = [];
+  if (previous.phase === 'gameOver') return { state: previous, events };
+
+  const mode = getGameMode(previous.options.mode);
+  const state = { ...previous, elapsedMs: previous.elapsedMs + deltaMs };
+  if (mode.timeLimit !== null && state.elapsedMs >= mode.timeLimit) {
+    events.push({ type: 'gameOver', reason: 'timeUp' });
+    return { state: { ...state, elapsedMs: mode.timeLimit, phase: 'gameOver', current: null, clearingRows: [] }, events };
+  }
+
+  if (state.phase === 'clearing') {
+    const clearTimer = state.clearTimer - deltaMs;
+    if (clearTimer > 0) return { state: { ...state, clearTimer }, events };
+    return { state: finishClear(state, events), events };
+  }
+
+  if (state.phase !== 'playing' || !state.current) return { state, events };
+
+  let next = state;
+  if (mode.garbageInterval) {
+    const interval = mode.garbageInterval(state.level);
+    const garbageTimer = state.garbageTimer + deltaMs;
+    next = garbageTimer >= interval ? addGarbage({ ...state, garbageTimer: garbageTimer - interval }, 1, events) : { ...state, garbageTimer };
+    if (next.phase === 'gameOver') return { state: next, events };
+  }
+
+  next = autoShift(next, deltaMs);
+  if (!applyGravity) return { state: next, events };
+
+  const { softDropFactor, infiniteSoftDrop, lockDelay } = state.options.handling;
+  const softDropping = next.handling.held.softDrop;
+  // Without gravity only a held soft drop pulls the piece down and runs the lock delay
+  if (!mode.gravity && !softDropping) return { state: next, events };
+  if (softDropping && infiniteSoftDrop) {
+    next = sonicDrop(next);
+  } else {
+    // Fractions of a row carry over to the next tick; several whole rows fall at once
+    const gravity = getGravity(next) * (softDropping ? softDropFactor : 1);
+    next = { ...next, fallProgress: next.fallProgress + gravity * (deltaMs / FRAME_MS) };
+    while (next.phase === 'playing' && next.current && next.fallProgress >= 1) {
+      if (isGrounded(next)) {
+        next = lockDelay > 0 ? { ...next, fallProgress: 0 } : lockPiece(next, next.current, events);
+      } else {
+        const moved = descend(next, softDropping);
+        next = { ...moved, fallProgress: moved.fallProgress - 1 };
+      }
+    }
+  }
+
+  if (next.phase === 'playing' && next.current && lockDelay > 0 && isGrounded(next)) {
+    const lockTimer = next.handling.lockTimer + deltaMs;
+    if (lockTimer >= lockDelay) return { state: lockPiece(next, next.current, events), events };
+    next = { ...next, handling: { ...next.handling, lockTimer } };
+  }
+  return { state: next, events };
+};
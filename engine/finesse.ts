@@ -0,0 +1,70 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { checkCollision, createEmptyBoard, createPiece } from './board';
+import { RotationSystem, rotatePiece } from './rotation';
+
+// Finesse: the fewest key presses that bring a piece from its spawn position to the column and
+// orientation it locked in. Judged in an open field, with taps, DAS to the wall and rotations
+// costing one press each; the drop itself isn't counted.
+
+type FinesseMove = 'tapLeft' | 'tapRight' | 'dasLeft' | 'dasRight' | 'rotateCW' | 'rotateCCW';
+
+const MOVES: FinesseMove[] = ['tapLeft', 'tapRight', 'dasLeft', 'dasRight', 'rotateCW', 'rotateCCW'];
+
+const OPEN_FIELD: BoardMatrix = createEmptyBoard();
+
+// The piece's blocks relative to its top row: equal for positions that drop to the same place
+const footprint = (piece: ActivePiece): string => {
+  const cells: [number, number][] = [];
+  piece.matrices[piece.rotation].forEach((row, r) => row.forEach((cell, c) => {
+    if (cell !== 0) cells.push([piece.position.row + r, piece.position.col + c]);
+  }));
+  const top = Math.min(...cells.map(([row]) => row));
+  return cells.map(([row, col]) => `${row - top},${col}`).sort().join(';');
+};
+
+const shift = (piece: ActivePiece, direction: number): ActivePiece | null => {
+  const position = { row: piece.position.row, col: piece.position.col + direction };
+  return checkCollision(piece, position, OPEN_FIELD) ? null : { ...piece, position };
+};
+
+const applyMove = (piece: ActivePiece, move: FinesseMove, system: RotationSystem): ActivePiece | null => {
+  switch (move) {
+    case 'tapLeft':
+      return shift(piece, -1);
+    case 'tapRight':
+      return shift(piece, 1);
+    case 'dasLeft':
+    case 'dasRight': {
+      const direction = move === 'dasLeft' ? -1 : 1;
+      let moved = shift(piece, direction);
+      if (!moved) return null;
+      for (let next = shift(moved, direction); next; next = shift(next, direction)) moved = next;
+      return moved;
+    }
+    case 'rotateCW':
+    case 'rotateCCW':
+      return rotatePiece(piece, move === 'rotateCW' ? 1 : -1, OPEN_FIELD, system)?.piece ?? null;
+  }
+};
+
+// null when no sequence of these presses reaches the placement (it took a soft drop, a tuck or a spin)
+export const minimumPresses = (locked: ActivePiece, system: RotationSystem): number | null => {
+  const target = footprint(locked);
+  const start = createPiece(locked.shape);
+  const seen = new Set<string>([footprint(start)]);
+  let frontier = [start];
+  for (let presses = 0; frontier.length > 0; presses++) {
+    if (frontier.some(piece => footprint(piece) === target)) return presses;
+    const next: ActivePiece[] = [];
+    frontier.forEach(piece => MOVES.forEach(move => {
+      const moved = applyMove(piece, move, system);
+      if (!moved) return;
+      const key = footprint(moved);
+      if (seen.has(key)) return;
+      seen.add(key);
+      next.push(moved);
+    }));
+    frontier = next;
+  }
+  return null;
+};
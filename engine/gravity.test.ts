@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FRAME_MS, GUIDELINE_GRAVITY, INSTANT_GRAVITY, INSTANT_GRAVITY_CURVE, NES_GRAVITY, formatGravity, formatGravitySteps, gravityAt, parseGravitySteps,
+} from './gravity';
+
+describe('gravity curves', () => {
+  it('start the guideline curve at one row per second and reach 20G at level 20', () => {
+    expect(gravityAt(GUIDELINE_GRAVITY, 1)).toBeCloseTo(FRAME_MS / 1000);
+    expect(gravityAt(GUIDELINE_GRAVITY, 19)).toBeLessThanOrEqual(INSTANT_GRAVITY);
+    expect(gravityAt(GUIDELINE_GRAVITY, 20)).toBe(INSTANT_GRAVITY);
+    expect(gravityAt(GUIDELINE_GRAVITY, 99)).toBe(INSTANT_GRAVITY);
+  });
+
+  it('speed up with the level', () => {
+    for (const curve of [GUIDELINE_GRAVITY, NES_GRAVITY]) {
+      for (let level = 2; level <= 30; level++) expect(gravityAt(curve, level)).toBeGreaterThanOrEqual(gravityAt(curve, level - 1));
+    }
+  });
+
+  it('hold each NES step until the next one', () => {
+    expect(gravityAt(NES_GRAVITY, 1)).toBe(1 / 48);
+    expect(gravityAt(NES_GRAVITY, 13)).toBe(1 / 5);
+    expect(gravityAt(NES_GRAVITY, 30)).toBe(1);
+  });
+
+  it('keep the 20G curve at 20G', () => {
+    expect(gravityAt(INSTANT_GRAVITY_CURVE, 1)).toBe(INSTANT_GRAVITY);
+  });
+
+  it('format fractions and whole numbers of G', () => {
+    expect(formatGravity(1 / 48)).toBe('0.021G');
+    expect(formatGravity(2.5)).toBe('2.5G');
+    expect(formatGravity(20)).toBe('20G');
+  });
+});
+
+describe('parseGravitySteps', () => {
+  it('reads level:G pairs', () => {
+    expect(parseGravitySteps('1:0.02, 5:0.5, 10:20')).toEqual([{ level: 1, g: 0.02 }, { level: 5, g: 0.5 }, { level: 10, g: 20 }]);
+  });
+
+  it('reads back what formatGravitySteps writes', () => {
+    const steps = [{ level: 1, g: 0.1 }, { level: 3, g: 1 }];
+    expect(parseGravitySteps(formatGravitySteps(steps))).toEqual(steps);
+  });
+
+  it.each(['', '2:1', '1:0', '1:21', '1:1, 1:2', '1:1, 5:x'])('rejects %j', text => {
+    expect(() => parseGravitySteps(text)).toThrow();
+  });
+});
@@ -0,0 +1,78 @@
+import { BOARD_HEIGHT } from '../constants';
+
+// Gravity is measured in G: rows a piece falls per frame. Below 1G a piece takes several frames
+// per row, above it falls several rows in one frame, and at 20G it lands the frame it spawns.
+
+// The fixed timestep everything runs on, replays included
+export const FRAME_MS = 1000 / 60;
+
+export const INSTANT_GRAVITY = BOARD_HEIGHT; // 20G
+
+export type GravityCurveId = 'guideline' | 'nes' | 'instant' | 'custom';
+
+// From `level` on the gravity is `g`, until the next step
+export interface GravityStep {
+  level: number;
+  g: number;
+}
+
+export interface GravityCurve {
+  id: GravityCurveId;
+  name: string;
+  steps: GravityStep[]; // Ascending by level, the first one at level 1
+}
+
+// (0.8 - (level - 1) * 0.007) ^ (level - 1) seconds per row up to level 19, then 20G
+const guidelineSteps = (): GravityStep[] => {
+  const steps = Array.from({ length: 19 }, (_, i) => ({ level: i + 1, g: Math.min(FRAME_MS / ((0.8 - i * 0.007) ** i * 1000), INSTANT_GRAVITY) }));
+  return [...steps, { level: 20, g: INSTANT_GRAVITY }];
+};
+
+// Frames per row on the NTSC NES, from its level 0 (our level 1) to the 1G of level 29
+const NES_FRAMES_PER_ROW: [number, number][] = [
+  [1, 48], [2, 43], [3, 38], [4, 33], [5, 28], [6, 23], [7, 18], [8, 13], [9, 8], [10, 6],
+  [11, 5], [14, 4], [17, 3], [20, 2], [30, 1],
+];
+
+export const GUIDELINE_GRAVITY: GravityCurve = { id: 'guideline', name: '가이드라인', steps: guidelineSteps() };
+
+export const NES_GRAVITY: GravityCurve = {
+  id: 'nes',
+  name: 'NES',
+  steps: NES_FRAMES_PER_ROW.map(([level, frames]) => ({ level, g: 1 / frames })),
+};
+
+export const INSTANT_GRAVITY_CURVE: GravityCurve = { id: 'instant', name: '20G', steps: [{ level: 1, g: INSTANT_GRAVITY }] };
+
+export const DEFAULT_CUSTOM_GRAVITY: GravityStep[] = [
+  { level: 1, g: 0.02 },
+  { level: 5, g: 0.1 },
+  { level: 10, g: 1 },
+  { level: 15, g: INSTANT_GRAVITY },
+];
+
+export const customGravityCurve = (steps: GravityStep[]): GravityCurve => ({ id: 'custom', name: '사용자 정의', steps });
+
+export const GRAVITY_CURVES: GravityCurve[] = [GUIDELINE_GRAVITY, NES_GRAVITY, INSTANT_GRAVITY_CURVE];
+
+export const gravityAt = (curve: GravityCurve, level: number): number =>
+  curve.steps.reduce((g, step) => (step.level <= level ? step.g : g), curve.steps[0].g);
+
+export const formatGravity = (g: number): string => `${g >= 1 ? g.toFixed(g % 1 === 0 ? 0 : 1) : g.toPrecision(2)}G`;
+
+// The custom curve is edited as text: "level:G" pairs separated by commas
+export const formatGravitySteps = (steps: GravityStep[]): string => steps.map(step => `${step.level}:${step.g}`).join(', ');
+
+export const parseGravitySteps = (text: string): GravityStep[] => {
+  const steps = text.split(',').filter(part => part.trim() !== '').map(part => {
+    const [level, g] = part.split(':').map(value => Number(value.trim()));
+    return { level, g };
+  });
+  const valid = steps.length > 0
+    && steps[0].level === 1
+    && steps.every((step, i) => Number.isInteger(step.level) && step.g > 0 && step.g <= INSTANT_GRAVITY && (i === 0 || step.level > steps[i - 1].level));
+  if (!valid) {
+    throw new Error(`레벨:G 쌍을 쉼표로 구분해 레벨 1부터 오름차순으로 입력하세요 (G는 ${INSTANT_GRAVITY} 이하)`);
+  }
+  return steps;
+};
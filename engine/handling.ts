@@ -0,0 +1,48 @@
+// Handling: how held keys turn into movement, and how long a grounded piece may still move.
+// All timings are in ms of game time, so they behave the same regardless of OS key repeat.
+
+export interface HandlingSettings {
+  das: number; // Delayed auto shift: hold time before a held direction starts repeating
+  arr: number; // Auto repeat rate: time between repeated shifts, 0 = straight to the wall
+  softDropFactor: number; // Gravity multiplier while soft drop is held
+  infiniteSoftDrop: boolean; // Soft drop moves straight to the floor without locking
+  lockDelay: number; // Time a grounded piece waits before locking, 0 = lock on contact
+  lockResetLimit: number; // Moves or rotations on the ground that may restart the lock delay
+}
+
+export const DEFAULT_HANDLING: HandlingSettings = {
+  das: 170,
+  arr: 50,
+  softDropFactor: 20,
+  infiniteSoftDrop: false,
+  lockDelay: 500,
+  lockResetLimit: 15,
+};
+
+export type HeldKey = 'left' | 'right' | 'softDrop';
+
+export interface HeldKeys {
+  left: boolean;
+  right: boolean;
+  softDrop: boolean;
+}
+
+export interface HandlingState {
+  held: HeldKeys;
+  shiftDirection: -1 | 0 | 1; // The most recently pressed direction that is still held
+  dasTimer: number;
+  arrTimer: number;
+  lockTimer: number;
+  lockResets: number;
+  lowestRow: number; // Deepest row the current piece reached; reaching a new one restores lock resets
+}
+
+export const INITIAL_HANDLING_STATE: HandlingState = {
+  held: { left: false, right: false, softDrop: false },
+  shiftDirection: 0,
+  dasTimer: 0,
+  arrTimer: 0,
+  lockTimer: 0,
+  lockResets: 0,
+  lowestRow: 0,
+};
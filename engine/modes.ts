@@ -0,0 +1,209 @@
+import { GUIDELINE_GRAVITY, GravityCurve, INSTANT_GRAVITY_CURVE, NES_GRAVITY } from './gravity';
+
+// Game modes: the goal that ends a game, its speed curve, garbage and how results are ranked. The
+// engine checks the goal and time limit itself, so replays and simulations end the same way.
+
+export type GameModeId = 'endless' | 'sprint' | 'ultra' | 'marathon' | 'master' | 'zen' | 'dig' | 'survival' | 'puzzle' | 'versus';
+
+// score: higher is better; time: a completed run in less time is better
+export type ModeMetric = 'score' | 'time';
+
+export interface GameMode {
+  id: GameModeId;
+  name: string;
+  description: string;
+  lineGoal: number | null; // The game is won on clearing this many lines
+  timeLimit: number | null; // ms of game time
+  maxLevel: number | null;
+  gravity: boolean; // Without it pieces only move down on soft or hard drop
+  topOut: boolean; // false: a top-out clears the board and play goes on
+  gravityCurve: GravityCurve; // Unless the game settings bring their own
+  startingGarbage: number; // Garbage rows on the board when the game starts
+  garbageInterval: ((level: number) => number) | null; // ms between rising garbage rows at a level
+  digGoal: boolean; // The game is won once no garbage is left
+  attacks: boolean; // Clears send garbage to an opponent; theirs queues up until a piece locks without a clear
+  metric: ModeMetric;
+  ranked: boolean; // Finished games go on the leaderboard
+}
+
+const DIG_GARBAGE_ROWS = 10;
+
+export const GAME_MODES: GameMode[] = [
+  {
+    id: 'endless',
+    name: '무한',
+    description: '쌓일 때까지 계속. 10줄마다 빨라집니다',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: null,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    id: 'sprint',
+    name: '스프린트 40줄',
+    description: '40줄을 최대한 빨리 지우세요',
+    lineGoal: 40,
+    timeLimit: null,
+    maxLevel: 1,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'time',
+    ranked: true,
+  },
+  {
+    id: 'ultra',
+    name: '울트라 2분',
+    description: '2분 동안 최고 점수를 노리세요',
+    lineGoal: null,
+    timeLimit: 2 * 60 * 1000,
+    maxLevel: 1,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    id: 'marathon',
+    name: '마라톤 150줄',
+    description: '150줄, 레벨 15까지 가이드라인 속도로',
+    lineGoal: 150,
+    timeLimit: null,
+    maxLevel: 15,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    id: 'master',
+    name: '마스터 20G',
+    description: '처음부터 20G. 조각이 나오자마자 바닥으로 떨어집니다',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: null,
+    gravity: true,
+    topOut: true,
+    gravityCurve: INSTANT_GRAVITY_CURVE,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    id: 'zen',
+    name: '젠',
+    description: '중력도 게임 오버도 없이 자유롭게',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: null,
+    gravity: false,
+    topOut: false,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    id: 'dig',
+    name: '땅파기',
+    description: `구멍 뚫린 쓰레기 ${DIG_GARBAGE_ROWS}줄을 최대한 빨리 모두 지우세요`,
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: 1,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: DIG_GARBAGE_ROWS,
+    garbageInterval: null,
+    digGoal: true,
+    attacks: false,
+    metric: 'time',
+    ranked: true,
+  },
+  {
+    id: 'survival',
+    name: '서바이벌',
+    description: '아래에서 쓰레기 줄이 계속 올라옵니다. 레벨이 오를수록 빨라집니다',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: null,
+    gravity: true,
+    topOut: true,
+    gravityCurve: NES_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: level => Math.max(1000, 6000 - (level - 1) * 500),
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: true,
+  },
+  {
+    // The board and pieces come from the puzzle in the game settings
+    id: 'puzzle',
+    name: '퍼즐',
+    description: '정해진 보드와 조각으로 T-스핀, 퍼펙트 클리어를 연습하세요',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: 1,
+    gravity: false,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: false,
+    metric: 'score',
+    ranked: false,
+  },
+  {
+    // Two boards side by side; the game ends when either one tops out
+    id: 'versus',
+    name: '대전',
+    description: '둘이서, 또는 AI와 함께. 줄을 지워 상대에게 쓰레기 줄을 보내세요',
+    lineGoal: null,
+    timeLimit: null,
+    maxLevel: 1,
+    gravity: true,
+    topOut: true,
+    gravityCurve: GUIDELINE_GRAVITY,
+    startingGarbage: 0,
+    garbageInterval: null,
+    digGoal: false,
+    attacks: true,
+    metric: 'score',
+    ranked: false,
+  },
+];
+
+export const DEFAULT_GAME_MODE: GameModeId = 'endless';
+
+export const getGameMode = (id: GameModeId | undefined): GameMode =>
+  GAME_MODES.find(mode => mode.id === id) ?? GAME_MODES[0];
@@ -0,0 +1,37 @@
+import { BoardMatrix } from '../types';
+import { TSpinKind } from './scoring';
+
+// Puzzles start from an authored board with a fixed, finite piece sequence. The engine checks
+// the goal on every clear; a puzzle whose pieces run out before that is failed.
+
+export type PuzzleGoal =
+  | { type: 'clearLines'; lines: number } // In total, over all the pieces
+  | { type: 'tSpin'; lines: 1 | 2 | 3 } // One full (not mini) T-spin clearing this many lines
+  | { type: 'perfectClear' };
+
+export interface Puzzle {
+  id: string;
+  name: string;
+  description: string;
+  board: BoardMatrix;
+  pieces: string[]; // Tetromino ids in the order they come
+  goal: PuzzleGoal;
+}
+
+export interface PuzzleClear {
+  count: number;
+  tSpin: TSpinKind;
+  perfectClear: boolean;
+}
+
+// `lines` is the total cleared so far, this clear included
+export const isPuzzleSolved = (goal: PuzzleGoal, clear: PuzzleClear, lines: number): boolean => {
+  switch (goal.type) {
+    case 'clearLines':
+      return lines >= goal.lines;
+    case 'tSpin':
+      return clear.tSpin === 'full' && clear.count === goal.lines;
+    case 'perfectClear':
+      return clear.perfectClear;
+  }
+};
@@ -0,0 +1,31 @@
+// Seeded PRNG (mulberry32). The generator state is a single uint32 so it can live inside
+// plain, serializable game state; every draw returns the value together with the next state.
+
+export type RngState = number;
+
+export const randomSeed = (): number => Math.floor(Math.random() * 0x100000000) >>> 0;
+
+export const nextRandom = (rng: RngState): [number, RngState] => {
+  const next = (rng + 0x6D2B79F5) >>> 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 0x100000000, next];
+};
+
+// Integer in [0, max)
+export const nextInt = (rng: RngState, max: number): [number, RngState] => {
+  const [value, next] = nextRandom(rng);
+  return [Math.floor(value * max), next];
+};
+
+export const shuffle = <T>(items: T[], rng: RngState): [T[], RngState] => {
+  const result = [...items];
+  let state = rng;
+  for (let i = result.length - 1; i > 0; i--) {
+    let j: number;
+    [j, state] = nextInt(state, i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return [result, state];
+};
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratorState, PieceGenerator, bagGenerator, classicGenerator, createSequenceGenerator, tgmGenerator } from './randomizer';
+
+const draw = (generator: PieceGenerator, seed: number, count: number): string[] => {
+  let state: GeneratorState = generator.create(seed);
+  const ids: string[] = [];
+  for (let i = 0; i < count; i++) {
+    let id: string;
+    ({ id, state } = generator.next(state));
+    ids.push(id);
+  }
+  return ids;
+};
+
+describe('piece generators', () => {
+  it.each([bagGenerator, classicGenerator, tgmGenerator])('$kind repeats the same order for the same seed', generator => {
+    expect(draw(generator, 123, 50)).toEqual(draw(generator, 123, 50));
+    expect(draw(generator, 123, 50)).not.toEqual(draw(generator, 124, 50));
+  });
+
+  it('deals every piece once per bag of seven', () => {
+    const ids = draw(bagGenerator, 7, 70);
+    for (let bag = 0; bag < 10; bag++) {
+      expect([...ids.slice(bag * 7, bag * 7 + 7)].sort()).toEqual(['I', 'J', 'L', 'O', 'S', 'T', 'Z']);
+    }
+  });
+
+  it('never starts a TGM game with S, Z or O', () => {
+    for (let seed = 0; seed < 50; seed++) expect(['I', 'J', 'L', 'T']).toContain(draw(tgmGenerator, seed, 1)[0]);
+  });
+
+  it('cycles through a fixed sequence', () => {
+    expect(draw(createSequenceGenerator(['T', 'I', 'O']), 0, 7)).toEqual(['T', 'I', 'O', 'T', 'I', 'O', 'T']);
+  });
+});
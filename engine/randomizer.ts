@@ -0,0 +1,95 @@
+import { TETROMINOES } from '../constants';
+import { RngState, nextInt, shuffle } from './random';
+
+// Piece generators. Each one is a pair of pure functions over a plain GeneratorState, so the
+// same seed and generator always reproduce the same piece order.
+
+export type RandomizerKind = 'bag7' | 'classic' | 'tgm' | 'sequence';
+
+export interface GeneratorState {
+  rng: RngState;
+  bag: string[]; // Pieces left in the current bag (7-bag)
+  history: string[]; // Most recent pieces, newest last (TGM)
+  index: number; // Position in the fixed sequence
+}
+
+export interface PieceGenerator {
+  kind: RandomizerKind;
+  name: string;
+  create: (seed: number) => GeneratorState;
+  next: (state: GeneratorState) => { id: string; state: GeneratorState };
+}
+
+const PIECE_IDS = TETROMINOES.map(t => t.id);
+
+const initialState = (seed: number): GeneratorState => ({ rng: seed >>> 0, bag: [], history: [], index: 0 });
+
+export const bagGenerator: PieceGenerator = {
+  kind: 'bag7',
+  name: '7-bag',
+  create: initialState,
+  next: state => {
+    let { bag, rng } = state;
+    if (bag.length === 0) [bag, rng] = shuffle(PIECE_IDS, rng);
+    const [id, ...rest] = bag;
+    return { id, state: { ...state, bag: rest, rng } };
+  },
+};
+
+export const classicGenerator: PieceGenerator = {
+  kind: 'classic',
+  name: '클래식 무작위',
+  create: initialState,
+  next: state => {
+    const [index, rng] = nextInt(state.rng, PIECE_IDS.length);
+    return { id: PIECE_IDS[index], state: { ...state, rng } };
+  },
+};
+
+const TGM_HISTORY_SIZE = 4;
+const TGM_ROLLS = 6;
+const TGM_FIRST_PIECES = ['I', 'J', 'L', 'T'];
+
+// TGM2-style: reroll up to TGM_ROLLS times while the piece is in the recent history
+export const tgmGenerator: PieceGenerator = {
+  kind: 'tgm',
+  name: 'TGM 히스토리',
+  create: seed => ({ ...initialState(seed), history: ['Z', 'S', 'S', 'Z'] }),
+  next: state => {
+    let rng = state.rng;
+    let id: string;
+    let index: number;
+    if (state.index === 0) {
+      [index, rng] = nextInt(rng, TGM_FIRST_PIECES.length);
+      id = TGM_FIRST_PIECES[index];
+    } else {
+      [index, rng] = nextInt(rng, PIECE_IDS.length);
+      id = PIECE_IDS[index];
+      for (let roll = 1; roll < TGM_ROLLS && state.history.includes(id); roll++) {
+        [index, rng] = nextInt(rng, PIECE_IDS.length);
+        id = PIECE_IDS[index];
+      }
+    }
+    const history = [...state.history, id].slice(-TGM_HISTORY_SIZE);
+    return { id, state: { ...state, rng, history, index: state.index + 1 } };
+  },
+};
+
+// Repeats the given pieces in order; the seed is ignored. Meant for tests and authored setups.
+export const createSequenceGenerator = (ids: string[]): PieceGenerator => {
+  if (ids.length === 0) throw new Error('Piece sequence must not be empty');
+  return {
+    kind: 'sequence',
+    name: '고정 순서',
+    create: initialState,
+    next: state => ({ id: ids[state.index % ids.length], state: { ...state, index: state.index + 1 } }),
+  };
+};
+
+export const GENERATORS: PieceGenerator[] = [bagGenerator, classicGenerator, tgmGenerator];
+
+export const getGenerator = (kind: RandomizerKind): PieceGenerator => {
+  const generator = GENERATORS.find(g => g.kind === kind);
+  if (!generator) throw new Error(`Generator "${kind}" needs explicit setup`);
+  return generator;
+};
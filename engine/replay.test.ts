@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayAction, applyReplayAction, createReplayPlayer, createReplayRecorder, parseReplay, startSimulation, stepFrame } from './replay';
+import { DEFAULT_HANDLING } from './handling';
+import { GameSettings } from './types';
+
+const SETTINGS: GameSettings = {
+  seed: 42,
+  randomizer: 'bag7',
+  rotationSystem: 'srs',
+  previewCount: 3,
+  scoringTable: 'guideline',
+  handling: DEFAULT_HANDLING,
+  mode: 'zen', // No game over, so the whole script keeps playing
+};
+
+const SCRIPT: ReplayAction[] = [
+  'press:left', 'release:left', 'rotateCW', 'hardDrop',
+  'press:right', 'rotateCCW', 'release:right', 'hardDrop',
+  'hold', 'press:softDrop', 'release:softDrop', 'garbage:1', 'hardDrop',
+  'gravity:off', 'moveLeft', 'moveLeft', 'hardDrop', 'gravity:on',
+];
+
+// Plays the script against the live simulation, one action every few frames, and records it
+const recordGame = (frames: number) => {
+  const recorder = createReplayRecorder(SETTINGS);
+  let sim = startSimulation(SETTINGS);
+  while (sim.frame < frames) {
+    sim = stepFrame(sim);
+    if (sim.frame % 7 === 0) {
+      const action = SCRIPT[(sim.frame / 7) % SCRIPT.length];
+      recorder.record(sim.frame, action);
+      sim = applyReplayAction(sim, action);
+    }
+  }
+  return { replay: recorder.finish(sim.frame, sim.engine), engine: sim.engine };
+};
+
+describe('replays', () => {
+  it('reproduce the recorded game exactly', () => {
+    const { replay, engine } = recordGame(3000);
+    const player = createReplayPlayer(replay);
+    player.seek(replay.frameCount);
+    expect(player.engine.board).toEqual(engine.board);
+    expect(player.engine.current).toEqual(engine.current);
+    expect(player.engine.score).toBe(engine.score);
+    expect(player.engine.lines).toBe(engine.lines);
+    expect(player.engine.randomizer).toEqual(engine.randomizer);
+  });
+
+  it('reach the same state when seeking back and forth', () => {
+    const { replay } = recordGame(2000);
+    const player = createReplayPlayer(replay);
+    player.seek(1500);
+    const forward = player.engine;
+    player.seek(700);
+    player.seek(1500);
+    expect(player.engine.board).toEqual(forward.board);
+    expect(player.engine.score).toBe(forward.score);
+  });
+
+  it('survive a round trip through JSON', () => {
+    const { replay } = recordGame(500);
+    expect(parseReplay(JSON.stringify(replay))).toEqual(replay);
+  });
+
+  it('reject files from another version', () => {
+    const { replay } = recordGame(10);
+    expect(() => parseReplay(JSON.stringify({ ...replay, version: 0 }))).toThrow();
+  });
+});
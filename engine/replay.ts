@@ -0,0 +1,183 @@
+import { EngineInput, EngineState, GameSettings } from './types';
+import { HeldKey } from './handling';
+import { applyInput, createGameFromSettings, pressKey, queueGarbage, releaseKey, tick } from './engine';
+import { FRAME_MS } from './gravity';
+
+// Replays store the settings (seed included) and every input stamped with the frame it happened
+// on. The game runs on a fixed timestep, so re-applying the inputs reproduces the game exactly.
+
+export const REPLAY_VERSION = 1;
+
+// garbage:N is N rows arriving from a versus opponent
+export type ReplayAction = EngineInput | `press:${HeldKey}` | `release:${HeldKey}` | 'gravity:on' | 'gravity:off' | `garbage:${number}`;
+
+// [frame, action]: the action happened after `frame` fixed-timestep ticks
+export type ReplayInput = [number, ReplayAction];
+
+export interface ReplayResult {
+  score: number;
+  lines: number;
+  level: number;
+}
+
+export interface Replay {
+  version: number;
+  settings: GameSettings;
+  frameCount: number;
+  inputs: ReplayInput[];
+  result: ReplayResult;
+  recordedAt: string; // ISO date
+}
+
+// Frame state of a game being simulated, live or from a replay
+export interface SimulationState {
+  engine: EngineState;
+  frame: number;
+  gravity: boolean; // Off while the AI steers, see tick()
+}
+
+export const startSimulation = (settings: GameSettings): SimulationState => ({
+  engine: createGameFromSettings(settings),
+  frame: 0,
+  gravity: true,
+});
+
+export const applyReplayAction = (sim: SimulationState, action: ReplayAction): SimulationState => {
+  switch (action) {
+    case 'gravity:on':
+      return { ...sim, gravity: true };
+    case 'gravity:off':
+      return { ...sim, gravity: false };
+  }
+  if (action.startsWith('press:')) return { ...sim, engine: pressKey(sim.engine, action.slice(6) as HeldKey).state };
+  if (action.startsWith('release:')) return { ...sim, engine: releaseKey(sim.engine, action.slice(8) as HeldKey).state };
+  if (action.startsWith('garbage:')) return { ...sim, engine: queueGarbage(sim.engine, Number(action.slice(8))) };
+  return { ...sim, engine: applyInput(sim.engine, action as EngineInput).state };
+};
+
+export const stepFrame = (sim: SimulationState): SimulationState => ({
+  ...sim,
+  engine: tick(sim.engine, FRAME_MS, sim.gravity).state,
+  frame: sim.frame + 1,
+});
+
+export interface ReplayRecorder {
+  record: (frame: number, action: ReplayAction) => void;
+  finish: (frameCount: number, engine: EngineState) => Replay;
+}
+
+export const createReplayRecorder = (settings: GameSettings): ReplayRecorder => {
+  const inputs: ReplayInput[] = [];
+  return {
+    record: (frame, action) => {
+      inputs.push([frame, action]);
+    },
+    finish: (frameCount, engine) => ({
+      version: REPLAY_VERSION,
+      settings,
+      frameCount,
+      inputs: [...inputs],
+      result: { score: engine.score, lines: engine.lines, level: engine.level },
+      recordedAt: new Date().toISOString(),
+    }),
+  };
+};
+
+export const parseReplay = (json: string): Replay => {
+  let data: Partial<Replay>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('리플레이 파일을 읽을 수 없습니다');
+  }
+  if (data.version !== REPLAY_VERSION) {
+    throw new Error(`지원하지 않는 리플레이 버전입니다: ${data.version}`);
+  }
+  if (!data.settings || typeof data.frameCount !== 'number' || !Array.isArray(data.inputs) || !data.result) {
+    throw new Error('리플레이 파일 형식이 올바르지 않습니다');
+  }
+  return data as Replay;
+};
+
+// Steps through a replay. Position p means p ticks have run and every input stamped with a
+// frame up to p has been applied. Seeking backwards re-simulates from the nearest checkpoint.
+export interface ReplayPlayer {
+  replay: Replay;
+  readonly frame: number;
+  readonly engine: EngineState;
+  paused: boolean;
+  speed: number;
+  seek: (frame: number) => void;
+  step: (frames: number) => void;
+  update: (deltaMs: number) => void; // Real time elapsed; advances by deltaMs * speed unless paused
+  subscribe: (listener: () => void) => () => void;
+}
+
+const CHECKPOINT_INTERVAL = 600; // frames
+
+export const createReplayPlayer = (replay: Replay): ReplayPlayer => {
+  const listeners = new Set<() => void>();
+  const checkpoints = new Map<number, { sim: SimulationState; inputIndex: number }>();
+  let sim = startSimulation(replay.settings);
+  let inputIndex = 0;
+  let accumulator = 0;
+
+  const applyInputsUpTo = (frame: number) => {
+    while (inputIndex < replay.inputs.length && replay.inputs[inputIndex][0] <= frame) {
+      sim = applyReplayAction(sim, replay.inputs[inputIndex][1]);
+      inputIndex++;
+    }
+  };
+
+  const advance = () => {
+    sim = stepFrame(sim);
+    applyInputsUpTo(sim.frame);
+    if (sim.frame % CHECKPOINT_INTERVAL === 0) checkpoints.set(sim.frame, { sim, inputIndex });
+  };
+
+  applyInputsUpTo(0);
+  checkpoints.set(0, { sim, inputIndex });
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const player: ReplayPlayer = {
+    replay,
+    get frame() {
+      return sim.frame;
+    },
+    get engine() {
+      return sim.engine;
+    },
+    paused: false,
+    speed: 1,
+    seek: target => {
+      const frame = Math.min(Math.max(Math.round(target), 0), replay.frameCount);
+      if (frame < sim.frame) {
+        const checkpoint = checkpoints.get(Math.floor(frame / CHECKPOINT_INTERVAL) * CHECKPOINT_INTERVAL) ?? checkpoints.get(0)!;
+        ({ sim, inputIndex } = checkpoint);
+      }
+      while (sim.frame < frame) advance();
+      accumulator = 0;
+      notify();
+    },
+    step: frames => player.seek(sim.frame + frames),
+    update: deltaMs => {
+      if (player.paused || sim.frame >= replay.frameCount) return;
+      accumulator += deltaMs * player.speed;
+      const startFrame = sim.frame;
+      while (accumulator >= FRAME_MS && sim.frame < replay.frameCount) {
+        advance();
+        accumulator -= FRAME_MS;
+      }
+      if (sim.frame >= replay.frameCount) player.paused = true;
+      if (sim.frame !== startFrame) notify();
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+  return player;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { getKickOffsets, rotatePiece } from './rotation';
+import { createEmptyBoard, createPiece } from './board';
+import { Position } from '../types';
+import { getTetromino } from '../constants';
+
+// Back to the table's [x, y] with y pointing up
+const asTable = (offsets: Position[]): number[][] => offsets.map(({ row, col }) => [col, -row]);
+
+describe('getKickOffsets', () => {
+  it('follows the guideline tables', () => {
+    expect(asTable(getKickOffsets('srs', 'T', 0, 1))).toEqual([[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]]);
+    expect(asTable(getKickOffsets('srs', 'I', 0, 1))).toEqual([[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]]);
+  });
+
+  it('turns upward kicks into negative rows', () => {
+    expect(getKickOffsets('srs', 'T', 0, 1)[2]).toEqual({ row: -1, col: -1 });
+  });
+
+  it('never kicks the O piece or in the classic system', () => {
+    expect(getKickOffsets('srs', 'O', 0, 1)).toHaveLength(1);
+    expect(getKickOffsets('classic', 'T', 0, 1)).toHaveLength(1);
+  });
+});
+
+describe('rotatePiece', () => {
+  // A T pointing right against the left wall has no room to turn in place
+  const wallT = { ...createPiece(getTetromino('T')), rotation: 1, position: { row: 5, col: -1 } };
+
+  it('rotates in place when there is room', () => {
+    const result = rotatePiece(createPiece(getTetromino('T')), 1, createEmptyBoard(), 'srs');
+    expect(result?.kickIndex).toBe(0);
+    expect(result?.piece.rotation).toBe(1);
+  });
+
+  it('kicks off the wall under SRS', () => {
+    const result = rotatePiece(wallT, 1, createEmptyBoard(), 'srs');
+    expect(result?.kickIndex).toBe(1);
+    expect(result?.piece.position).toEqual({ row: 5, col: 0 });
+  });
+
+  it('fails against the wall without kicks', () => {
+    expect(rotatePiece(wallT, 1, createEmptyBoard(), 'classic')).toBeNull();
+  });
+
+  it('fails when no kick test fits', () => {
+    // Every row is full apart from a one-wide well in column 2
+    const board = createEmptyBoard().map(row => row.map((_, col) => col === 2 ? 0 : 8));
+    const piece = { ...createPiece(getTetromino('I')), rotation: 1, position: { row: 10, col: 0 } };
+    expect(rotatePiece(piece, 1, board, 'srs')).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+import { ActivePiece, BoardMatrix, Position } from '../types';
+import { checkCollision } from './board';
+
+// Super Rotation System. Rotation states are 0 (spawn), 1 (R), 2 and 3 (L); the kick tables
+// below are the guideline ones, written as [x, y] with y pointing up.
+
+export type RotationSystem = 'srs' | 'classic';
+export type RotationDirection = 1 | -1; // 1 = clockwise, -1 = counter-clockwise
+
+export const ROTATION_SYSTEMS: { id: RotationSystem; name: string }[] = [
+  { id: 'srs', name: 'SRS (월킥)' },
+  { id: 'classic', name: '클래식 (킥 없음)' },
+];
+
+type KickTable = Record<string, [number, number][]>;
+
+const JLSTZ_KICKS: KickTable = {
+  '0>1': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '1>0': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '1>2': [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+  '2>1': [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+  '2>3': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+  '3>2': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '3>0': [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+  '0>3': [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+};
+
+const I_KICKS: KickTable = {
+  '0>1': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  '1>0': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  '1>2': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+  '2>1': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '2>3': [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+  '3>2': [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+  '3>0': [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+  '0>3': [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+};
+
+const NO_KICKS: [number, number][] = [[0, 0]];
+
+// Offsets to try in order, converted to board coordinates (rows grow downwards)
+export const getKickOffsets = (system: RotationSystem, pieceId: string, from: number, to: number): Position[] => {
+  let kicks = NO_KICKS;
+  if (system === 'srs' && pieceId !== 'O') {
+    kicks = (pieceId === 'I' ? I_KICKS : JLSTZ_KICKS)[`${from}>${to}`] ?? NO_KICKS;
+  }
+  return kicks.map(([x, y]) => ({ row: -y, col: x }));
+};
+
+export interface RotationResult {
+  piece: ActivePiece;
+  kickIndex: number; // Which kick test succeeded, 0 = rotated in place
+}
+
+export const rotatePiece = (
+  piece: ActivePiece,
+  direction: RotationDirection,
+  board: BoardMatrix,
+  system: RotationSystem,
+): RotationResult | null => {
+  const count = piece.matrices.length;
+  const rotation = (piece.rotation + direction + count) % count;
+  const rotated = { ...piece, rotation };
+  const offsets = getKickOffsets(system, piece.shape.id, piece.rotation, rotation);
+  for (let kickIndex = 0; kickIndex < offsets.length; kickIndex++) {
+    const position = { row: piece.position.row + offsets[kickIndex].row, col: piece.position.col + offsets[kickIndex].col };
+    if (!checkCollision(rotated, position, board)) {
+      return { piece: { ...rotated, position }, kickIndex };
+    }
+  }
+  return null;
+};
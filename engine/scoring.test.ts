@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_SCORING_STATE, ScoringState, detectTSpin, getScoringTable, scoreClear } from './scoring';
+import { createEmptyBoard, createPiece } from './board';
+import { BoardMatrix } from '../types';
+import { getTetromino } from '../constants';
+
+// Rows written top to bottom with '#' for a block; they fill the bottom of an empty board
+const boardOf = (rows: string[]): BoardMatrix => {
+  const board = createEmptyBoard();
+  rows.forEach((row, i) => {
+    board[board.length - rows.length + i] = row.split('').map(cell => cell === '#' ? 1 : 0);
+  });
+  return board;
+};
+
+const guideline = getScoringTable('guideline');
+const nes = getScoringTable('nes');
+
+// A T pointing down into the slot at rows 18-19, columns 3-5
+const slotT = { ...createPiece(getTetromino('T')), rotation: 2, position: { row: 17, col: 3 } };
+
+describe('detectTSpin', () => {
+  it('counts a full spin when both corners the T points to are filled', () => {
+    const board = boardOf(['...#......', '###...####', '####.#####']);
+    expect(detectTSpin(slotT, board, 0)).toBe('full');
+  });
+
+  it('counts a mini spin with only one front corner filled', () => {
+    const board = boardOf(['...#.#....', '###...####', '####..####']);
+    expect(detectTSpin(slotT, board, 0)).toBe('mini');
+  });
+
+  it('upgrades a mini spin reached with the last kick test', () => {
+    const board = boardOf(['...#.#....', '###...####', '####..####']);
+    expect(detectTSpin(slotT, board, 4)).toBe('full');
+  });
+
+  it('needs the last action to be a rotation', () => {
+    const board = boardOf(['...#......', '###...####', '####.#####']);
+    expect(detectTSpin(slotT, board, null)).toBe('none');
+  });
+
+  it('ignores pieces other than the T', () => {
+    const piece = { ...createPiece(getTetromino('L')), rotation: 2, position: { row: 17, col: 3 } };
+    expect(detectTSpin(piece, boardOf(['...#......', '###...####', '####.#####']), 0)).toBe('none');
+  });
+});
+
+describe('scoreClear', () => {
+  const clear = (lines: number, tSpin: 'none' | 'mini' | 'full' = 'none', perfectClear = false) => ({ lines, tSpin, perfectClear });
+
+  it('scores a line clear by level', () => {
+    const result = scoreClear(guideline, clear(2), 3, INITIAL_SCORING_STATE);
+    expect(result.points).toBe(900);
+    expect(result.labels).toEqual(['DOUBLE']);
+    expect(result.scoring).toEqual({ combo: 0, backToBack: false });
+  });
+
+  it('multiplies back-to-back difficult clears', () => {
+    const chained: ScoringState = { combo: -1, backToBack: true };
+    const result = scoreClear(guideline, clear(4), 1, chained);
+    expect(result.points).toBe(1200);
+    expect(result.backToBack).toBe(true);
+    expect(result.labels).toEqual(['B2B TETRIS']);
+  });
+
+  it('breaks the back-to-back chain on an easy clear', () => {
+    const result = scoreClear(guideline, clear(1), 1, { combo: -1, backToBack: true });
+    expect(result.backToBack).toBe(false);
+    expect(result.scoring.backToBack).toBe(false);
+  });
+
+  it('adds combo bonuses and ends the combo on a lock without lines', () => {
+    const result = scoreClear(guideline, clear(1), 1, { combo: 2, backToBack: false });
+    expect(result.points).toBe(100 + 3 * 50);
+    expect(result.labels).toContain('3 COMBO');
+    expect(scoreClear(guideline, clear(0), 1, result.scoring).scoring.combo).toBe(-1);
+  });
+
+  it('scores T-spins without lines', () => {
+    const result = scoreClear(guideline, clear(0, 'full'), 2, INITIAL_SCORING_STATE);
+    expect(result.points).toBe(800);
+    expect(result.labels).toEqual(['T-SPIN']);
+  });
+
+  it('takes the back-to-back Tetris perfect clear bonus from the table', () => {
+    const result = scoreClear(guideline, clear(4, 'none', true), 1, { combo: -1, backToBack: true });
+    expect(result.points).toBe(800 * 1.5 + guideline.perfectClearB2BTetris);
+    expect(result.labels).toContain('PERFECT CLEAR');
+  });
+
+  it('has no back-to-back, combo or perfect clear bonus on the NES table', () => {
+    const result = scoreClear(nes, clear(4, 'none', true), 2, { combo: 3, backToBack: true });
+    expect(result.points).toBe(2400);
+    expect(result.labels).toEqual(['TETRIS']);
+  });
+});
@@ -0,0 +1,130 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { BOARD_HEIGHT, BOARD_WIDTH } from '../constants';
+
+// Scoring rules kept apart from the engine so the tables can be swapped per game.
+
+export type ScoringTableId = 'guideline' | 'nes';
+export type TSpinKind = 'none' | 'mini' | 'full';
+
+export interface ScoringTable {
+  id: ScoringTableId;
+  name: string;
+  lineClear: number[]; // Indexed by lines cleared, 0-4
+  tSpin: number[];
+  tSpinMini: number[];
+  perfectClear: number[];
+  perfectClearB2BTetris: number; // Replaces perfectClear[4] when the Tetris is back-to-back
+  backToBackMultiplier: number;
+  comboBonus: number; // Per combo step
+  softDrop: number; // Per cell
+  hardDrop: number; // Per cell
+}
+
+export const SCORING_TABLES: ScoringTable[] = [
+  {
+    id: 'guideline',
+    name: '가이드라인',
+    lineClear: [0, 100, 300, 500, 800],
+    tSpin: [400, 800, 1200, 1600, 1600],
+    tSpinMini: [100, 200, 400, 400, 400],
+    perfectClear: [0, 800, 1200, 1800, 2000],
+    perfectClearB2BTetris: 3200,
+    backToBackMultiplier: 1.5,
+    comboBonus: 50,
+    softDrop: 1,
+    hardDrop: 2,
+  },
+  {
+    // NES had no spins, combos or hard drop; a T-spin simply scores as its line clear
+    id: 'nes',
+    name: 'NES 클래식',
+    lineClear: [0, 40, 100, 300, 1200],
+    tSpin: [0, 40, 100, 300, 1200],
+    tSpinMini: [0, 40, 100, 300, 1200],
+    perfectClear: [0, 0, 0, 0, 0],
+    perfectClearB2BTetris: 0,
+    backToBackMultiplier: 1,
+    comboBonus: 0,
+    softDrop: 1,
+    hardDrop: 0,
+  },
+];
+
+export const getScoringTable = (id: ScoringTableId): ScoringTable =>
+  SCORING_TABLES.find(t => t.id === id) ?? SCORING_TABLES[0];
+
+export interface ScoringState {
+  combo: number; // -1 when no chain is running, 0 after the first clear of a chain
+  backToBack: boolean; // The last line clear was a difficult one
+}
+
+export const INITIAL_SCORING_STATE: ScoringState = { combo: -1, backToBack: false };
+
+export interface ClearInfo {
+  lines: number;
+  tSpin: TSpinKind;
+  perfectClear: boolean;
+}
+
+export interface ScoreResult {
+  points: number;
+  labels: string[]; // Short on-screen callouts, e.g. "B2B TETRIS"
+  backToBack: boolean; // This clear received the back-to-back bonus
+  scoring: ScoringState;
+}
+
+const CLEAR_NAMES = ['', 'SINGLE', 'DOUBLE', 'TRIPLE', 'TETRIS'];
+
+const isOccupied = (board: BoardMatrix, row: number, col: number): boolean =>
+  row >= BOARD_HEIGHT || col < 0 || col >= BOARD_WIDTH || (row >= 0 && board[row][col] !== 0);
+
+// Three-corner rule. The piece must be a T whose last successful action was a rotation;
+// kickIndex is the SRS test that rotation used, and the last test always counts as a full spin.
+export const detectTSpin = (piece: ActivePiece, board: BoardMatrix, kickIndex: number | null): TSpinKind => {
+  if (piece.shape.id !== 'T' || kickIndex === null) return 'none';
+  const { row, col } = piece.position;
+  // Corners around the T's center cell, clockwise from top-left
+  const corners = [[row, col], [row, col + 2], [row + 2, col + 2], [row + 2, col]].map(([r, c]) => isOccupied(board, r, c));
+  if (corners.filter(Boolean).length < 3) return 'none';
+  // The two corners on the side the T points to
+  const front = [corners[piece.rotation], corners[(piece.rotation + 1) % 4]];
+  return (front[0] && front[1]) || kickIndex === 4 ? 'full' : 'mini';
+};
+
+export const dropPoints = (table: ScoringTable, cells: number, hard: boolean): number =>
+  cells * (hard ? table.hardDrop : table.softDrop);
+
+export const scoreClear = (table: ScoringTable, clear: ClearInfo, level: number, state: ScoringState): ScoreResult => {
+  const { lines, tSpin, perfectClear } = clear;
+  if (lines === 0) {
+    const base = tSpin === 'full' ? table.tSpin[0] : tSpin === 'mini' ? table.tSpinMini[0] : 0;
+    return {
+      points: base * level,
+      labels: tSpin === 'none' ? [] : [tSpin === 'mini' ? 'MINI T-SPIN' : 'T-SPIN'],
+      backToBack: false,
+      scoring: { ...state, combo: -1 },
+    };
+  }
+
+  const difficult = lines === 4 || tSpin !== 'none';
+  const backToBack = difficult && state.backToBack && table.backToBackMultiplier > 1;
+  const combo = state.combo + 1;
+
+  let base = tSpin === 'full' ? table.tSpin[lines] : tSpin === 'mini' ? table.tSpinMini[lines] : table.lineClear[lines];
+  if (backToBack) base *= table.backToBackMultiplier;
+  if (perfectClear) base += backToBack && lines === 4 ? table.perfectClearB2BTetris : table.perfectClear[lines];
+  base += combo * table.comboBonus;
+
+  let name = CLEAR_NAMES[lines];
+  if (tSpin !== 'none') name = `${tSpin === 'mini' ? 'MINI ' : ''}T-SPIN ${name}`;
+  const labels = [backToBack ? `B2B ${name}` : name];
+  if (perfectClear && table.perfectClear[lines] > 0) labels.push('PERFECT CLEAR');
+  if (combo > 0 && table.comboBonus > 0) labels.push(`${combo} COMBO`);
+
+  return {
+    points: Math.floor(base * level),
+    labels,
+    backToBack,
+    scoring: { combo, backToBack: difficult },
+  };
+};
@@ -0,0 +1,74 @@
+import { EngineEvent } from './types';
+import { RotationSystem } from './rotation';
+import { minimumPresses } from './finesse';
+
+// Play statistics built from engine events and the key presses that led to them, so they can be
+// kept for any game (live or simulated) without looking at the UI.
+
+export type StatsPress = 'move' | 'rotate' | 'softDrop' | 'hardDrop' | 'hold';
+
+export interface GameStats {
+  pieces: number; // Locked
+  inputs: number; // Key presses of any kind
+  finesseFaults: number; // Pieces placed with more presses than minimumPresses()
+  pieceCounts: Record<string, number>; // Locked pieces by shape id
+  clears: [number, number, number, number]; // Singles, doubles, triples, Tetrises
+  piecePresses: number; // Moves and rotations for the piece in play
+  pieceSoftDropped: boolean; // Soft-dropped pieces can be tucks and aren't judged for finesse
+}
+
+export const createGameStats = (): GameStats => ({
+  pieces: 0,
+  inputs: 0,
+  finesseFaults: 0,
+  pieceCounts: {},
+  clears: [0, 0, 0, 0],
+  piecePresses: 0,
+  pieceSoftDropped: false,
+});
+
+export const recordPress = (stats: GameStats, press: StatsPress): GameStats => ({
+  ...stats,
+  inputs: stats.inputs + 1,
+  piecePresses: stats.piecePresses + (press === 'move' || press === 'rotate' ? 1 : 0),
+  pieceSoftDropped: stats.pieceSoftDropped || press === 'softDrop',
+});
+
+export const applyStatsEvents = (stats: GameStats, events: EngineEvent[], system: RotationSystem): GameStats =>
+  events.reduce<GameStats>((next, event) => {
+    switch (event.type) {
+      case 'pieceSpawned':
+        return { ...next, piecePresses: 0, pieceSoftDropped: false };
+      case 'pieceLocked': {
+        const { id } = event.piece.shape;
+        const minimum = next.pieceSoftDropped ? null : minimumPresses(event.piece, system);
+        return {
+          ...next,
+          pieces: next.pieces + 1,
+          pieceCounts: { ...next.pieceCounts, [id]: (next.pieceCounts[id] ?? 0) + 1 },
+          finesseFaults: next.finesseFaults + (minimum !== null && next.piecePresses > minimum ? 1 : 0),
+        };
+      }
+      case 'linesCleared': {
+        const clears = [...next.clears] as GameStats['clears'];
+        clears[Math.min(event.count, 4) - 1]++;
+        return { ...next, clears };
+      }
+      default:
+        return next;
+    }
+  }, stats);
+
+export const piecesPerSecond = (stats: GameStats, elapsedMs: number): number =>
+  elapsedMs > 0 ? stats.pieces / (elapsedMs / 1000) : 0;
+
+export const inputsPerPiece = (stats: GameStats): number => (stats.pieces > 0 ? stats.inputs / stats.pieces : 0);
+
+export const inputsPerMinute = (stats: GameStats, elapsedMs: number): number =>
+  elapsedMs > 0 ? stats.inputs / (elapsedMs / 60000) : 0;
+
+// What the stats panel shows: the stats plus the game time they cover
+export interface StatsSnapshot {
+  stats: GameStats;
+  elapsedMs: number;
+}
@@ -0,0 +1,86 @@
+import { ActivePiece, BoardMatrix } from '../types';
+import { GeneratorState, PieceGenerator, RandomizerKind } from './randomizer';
+import { RotationSystem } from './rotation';
+import { ScoringState, ScoringTableId, TSpinKind } from './scoring';
+import { HandlingSettings, HandlingState } from './handling';
+import { GameModeId } from './modes';
+import { RngState } from './random';
+import { Puzzle } from './puzzle';
+import { GravityCurve } from './gravity';
+
+export type EngineInput = 'moveLeft' | 'moveRight' | 'softDrop' | 'rotateCW' | 'rotateCCW' | 'hardDrop' | 'hold';
+
+export type EnginePhase = 'playing' | 'clearing' | 'gameOver';
+
+export interface EngineOptions {
+  startLevel: number;
+  lineClearDelay: number; // ms the cleared rows stay on the board before collapsing
+  generator: PieceGenerator;
+  seed: number;
+  rotationSystem: RotationSystem;
+  previewCount: number; // Pieces visible in the next queue, 1 to MAX_PREVIEW_COUNT
+  scoringTable: ScoringTableId;
+  handling: HandlingSettings;
+  mode: GameModeId;
+  puzzle: Puzzle | null; // Starting board and piece sequence; replaces the generator's pieces
+  gravity: GravityCurve | null; // null: the game mode's curve
+}
+
+// Serializable subset of the options: everything needed to start (and reproduce) a game
+export interface GameSettings {
+  seed: number;
+  randomizer: RandomizerKind;
+  rotationSystem: RotationSystem;
+  previewCount: number;
+  scoringTable: ScoringTableId;
+  handling: HandlingSettings;
+  mode: GameModeId;
+  puzzle?: Puzzle;
+  gravity?: GravityCurve; // The whole curve, so replays keep a custom one
+}
+
+export interface EngineState {
+  options: EngineOptions;
+  phase: EnginePhase;
+  board: BoardMatrix;
+  current: ActivePiece | null; // null while rows are clearing and after game over
+  queue: ActivePiece[]; // Upcoming pieces, next first
+  hold: ActivePiece | null;
+  holdUsed: boolean; // Only one hold per piece; reset when a piece locks
+  randomizer: GeneratorState;
+  score: number;
+  scoring: ScoringState; // Combo and back-to-back chain
+  lastKick: number | null; // Kick index of the last action when it was a rotation, for T-spin detection
+  lines: number;
+  level: number;
+  fallProgress: number; // Rows of gravity accumulated towards the next step down
+  handling: HandlingState; // Held keys, DAS/ARR timers and lock delay
+  clearingRows: number[];
+  clearTimer: number; // ms left before clearingRows collapse
+  elapsedMs: number; // Game time since the start, for timed modes
+  garbageRng: RngState; // Hole columns of garbage rows, apart from the piece sequence
+  garbageTimer: number; // ms accumulated towards the next rising garbage row
+  incomingGarbage: number; // Rows sent by the opponent, waiting to rise
+}
+
+// topOut: no room for the next piece or the stack pushed off the top; goalReached: the mode's
+// line, dig or puzzle goal; timeUp: its time limit; outOfPieces: a puzzle's pieces ran out
+export type GameOverReason = 'topOut' | 'goalReached' | 'timeUp' | 'outOfPieces';
+
+export type EngineEvent =
+  | { type: 'pieceSpawned'; piece: ActivePiece }
+  | { type: 'pieceLocked'; piece: ActivePiece }
+  | { type: 'pieceHeld'; piece: ActivePiece }
+  | { type: 'hardDropped'; piece: ActivePiece; distance: number } // Followed by pieceLocked
+  | { type: 'linesCleared'; rows: number[]; count: number; tSpin: TSpinKind; perfectClear: boolean }
+  | { type: 'scored'; points: number; labels: string[]; combo: number; backToBack: boolean }
+  | { type: 'levelUp'; level: number }
+  | { type: 'gameOver'; reason: GameOverReason }
+  | { type: 'garbageAdded'; rows: number } // The stack rose by this many garbage rows
+  | { type: 'garbageSent'; rows: number } // Attack left over after cancelling incoming garbage
+  | { type: 'boardReset' }; // Top-out in a mode without game over
+
+export interface EngineStep {
+  state: EngineState;
+  events: EngineEvent[];
+}
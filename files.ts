@@ -0,0 +1,13 @@
+// Browser helpers for exporting and importing JSON files (replays, themes, puzzles, records)
+
+export const downloadJson = (filename: string, data: unknown): void => {
+  const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const readFileAsText = (file: File): Promise<string> => file.text();
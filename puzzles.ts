@@ -0,0 +1,190 @@
+import { BoardMatrix } from './types';
+import { BOARD_HEIGHT, BOARD_WIDTH, TETROMINOES } from './constants';
+import { Puzzle, PuzzleGoal } from './engine/puzzle';
+
+// Bundled puzzles, the puzzle file format and the player's progress. In files the board is a
+// list of rows, top to bottom, one character per cell: '.' empty, a tetromino letter for its
+// color, 'G' for garbage. Shorter lists fill the bottom of the board.
+
+export const PUZZLE_VERSION = 1;
+
+// Indexed by cell value, like COLORS
+export const CELL_CHARS = '.ILJOSZTG';
+
+const PIECE_IDS = TETROMINOES.map(t => t.id);
+
+export const boardFromRows = (rows: string[]): BoardMatrix => {
+  const padded = [...Array<string>(Math.max(0, BOARD_HEIGHT - rows.length)).fill('.'.repeat(BOARD_WIDTH)), ...rows];
+  return padded.map(row => Array.from(row, char => CELL_CHARS.indexOf(char)));
+};
+
+export const boardToRows = (board: BoardMatrix): string[] => board.map(row => row.map(cell => CELL_CHARS[cell]).join(''));
+
+export const BUNDLED_PUZZLES: Puzzle[] = [
+  {
+    id: 'tetris',
+    name: '첫 테트리스',
+    description: 'I 미노 하나로 네 줄을 한 번에 지우세요',
+    board: boardFromRows([
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+      'GGGGGGGGG.',
+    ]),
+    pieces: ['I'],
+    goal: { type: 'clearLines', lines: 4 },
+  },
+  {
+    id: 'tss',
+    name: 'T-스핀 싱글',
+    description: '턱 아래 구멍으로 T를 돌려 넣으세요',
+    board: boardFromRows([
+      'GGGG......',
+      'GGG...GGG.',
+      'GGGG.GGGGG',
+    ]),
+    pieces: ['T'],
+    goal: { type: 'tSpin', lines: 1 },
+  },
+  {
+    id: 'tsd',
+    name: 'T-스핀 더블',
+    description: '가장 기본적인 T-스핀 더블 자리입니다',
+    board: boardFromRows([
+      'GGGG......',
+      'GGG...GGGG',
+      'GGGG.GGGGG',
+    ]),
+    pieces: ['T'],
+    goal: { type: 'tSpin', lines: 2 },
+  },
+  {
+    id: 'three-for-four',
+    name: '세 조각 네 줄',
+    description: '조각 세 개로 네 줄을 지우세요',
+    board: boardFromRows([
+      'ZZLLLOO...',
+      'ZSSLJOO...',
+      'SSIIIIJ...',
+      'TTTOOJJ...',
+    ]),
+    pieces: ['O', 'I', 'O'],
+    goal: { type: 'clearLines', lines: 4 },
+  },
+  {
+    id: 'pc-2',
+    name: '퍼펙트 클리어 입문',
+    description: '두 줄을 남김없이 비우세요',
+    board: boardFromRows([
+      'LLLJJJ....',
+      'LIIIIJ....',
+    ]),
+    pieces: ['L', 'L'],
+    goal: { type: 'perfectClear' },
+  },
+  {
+    id: 'pc-4',
+    name: '네 줄 퍼펙트 클리어',
+    description: '보관을 활용해 네 줄을 남김없이 비우세요',
+    board: boardFromRows([
+      'IJJJOO....',
+      'ILLJOO....',
+      'ILSSZZ....',
+      'ILLSSZ....',
+    ]),
+    pieces: ['L', 'O', 'I', 'L'],
+    goal: { type: 'perfectClear' },
+  },
+];
+
+export const describeGoal = (goal: PuzzleGoal): string => {
+  switch (goal.type) {
+    case 'clearLines':
+      return `${goal.lines}줄 지우기`;
+    case 'tSpin':
+      return `T-스핀 ${['싱글', '더블', '트리플'][goal.lines - 1]}`;
+    case 'perfectClear':
+      return '퍼펙트 클리어';
+  }
+};
+
+interface PuzzleFile {
+  version: number;
+  puzzle: {
+    name: string;
+    description: string;
+    board: string[];
+    pieces: string[];
+    goal: PuzzleGoal;
+  };
+}
+
+export const exportPuzzle = (puzzle: Puzzle): PuzzleFile => ({
+  version: PUZZLE_VERSION,
+  puzzle: {
+    name: puzzle.name,
+    description: puzzle.description,
+    board: boardToRows(puzzle.board),
+    pieces: puzzle.pieces,
+    goal: puzzle.goal,
+  },
+});
+
+const isGoal = (value: unknown): value is PuzzleGoal => {
+  const goal = value as Partial<{ type: string; lines: number }> | null;
+  switch (goal?.type) {
+    case 'clearLines':
+      return Number.isInteger(goal.lines) && goal.lines! > 0;
+    case 'tSpin':
+      return goal.lines === 1 || goal.lines === 2 || goal.lines === 3;
+    case 'perfectClear':
+      return true;
+    default:
+      return false;
+  }
+};
+
+// Imported puzzles get an id of their own, so they never replace a bundled one
+export const parsePuzzle = (json: string): Puzzle => {
+  let data: Partial<PuzzleFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('퍼즐 파일을 읽을 수 없습니다');
+  }
+  if (data.version !== PUZZLE_VERSION) {
+    throw new Error(`지원하지 않는 퍼즐 버전입니다: ${data.version}`);
+  }
+  const puzzle = data.puzzle;
+  const valid = !!puzzle
+    && typeof puzzle.name === 'string'
+    && typeof puzzle.description === 'string'
+    && Array.isArray(puzzle.board) && puzzle.board.length <= BOARD_HEIGHT
+    && puzzle.board.every(row => typeof row === 'string' && row.length === BOARD_WIDTH && Array.from(row).every(char => CELL_CHARS.includes(char)))
+    && Array.isArray(puzzle.pieces) && puzzle.pieces.length > 0 && puzzle.pieces.every(id => PIECE_IDS.includes(id))
+    && isGoal(puzzle.goal);
+  if (!valid) {
+    throw new Error('퍼즐 파일 형식이 올바르지 않습니다');
+  }
+  return {
+    id: `custom-${Date.now().toString(36)}`,
+    name: puzzle.name,
+    description: puzzle.description,
+    board: boardFromRows(puzzle.board),
+    pieces: puzzle.pieces,
+    goal: puzzle.goal,
+  };
+};
+
+// Per puzzle id; puzzles never played have no entry
+export interface PuzzleProgressEntry {
+  attempts: number;
+  solved: boolean;
+}
+
+export type PuzzleProgress = Record<string, PuzzleProgressEntry>;
+
+export const recordPuzzleAttempt = (progress: PuzzleProgress, id: string, solved: boolean): PuzzleProgress => {
+  const entry = progress[id] ?? { attempts: 0, solved: false };
+  return { ...progress, [id]: { attempts: entry.attempts + 1, solved: entry.solved || solved } };
+};
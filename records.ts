@@ -0,0 +1,151 @@
+import { GameResult } from './types';
+import { GAME_MODES } from './engine/modes';
+
+// Local leaderboard and play history. Every finished game is kept (up to MAX_RECORDS, oldest
+// dropped first); leaderboards are per mode, ranked by the mode's metric, and split between
+// human and AI-assisted games.
+
+export type RecordControl = 'human' | 'ai';
+
+export interface ScoreRecord {
+  id: string;
+  mode: string;
+  control: RecordControl;
+  name: string;
+  score: number;
+  lines: number;
+  level: number;
+  durationMs: number;
+  pps: number; // Pieces per second
+  pieces: number;
+  completed: boolean; // Reached the mode's goal
+  date: string; // ISO date
+}
+
+export const RECORDS_VERSION = 1;
+export const MAX_RECORDS = 1000;
+export const LEADERBOARD_SIZE = 10;
+
+// Imported records may come from modes this version doesn't know; those keep their id as name
+export const modeName = (mode: string): string => GAME_MODES.find(m => m.id === mode)?.name ?? mode;
+
+export const isTimedMode = (mode: string): boolean => GAME_MODES.find(m => m.id === mode)?.metric === 'time';
+
+export const CONTROL_NAMES: Record<RecordControl, string> = { human: '사람', ai: 'AI 보조' };
+
+export const createRecord = (result: GameResult, name: string): ScoreRecord => ({
+  id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  mode: result.mode,
+  control: result.aiAssisted ? 'ai' : 'human',
+  name,
+  score: result.score,
+  lines: result.lines,
+  level: result.level,
+  durationMs: result.durationMs,
+  pps: result.durationMs > 0 ? result.pieces / (result.durationMs / 1000) : 0,
+  pieces: result.pieces,
+  completed: result.reason === 'goalReached',
+  date: new Date().toISOString(),
+});
+
+export const addRecord = (records: ScoreRecord[], record: ScoreRecord): ScoreRecord[] =>
+  [...records, record].slice(-MAX_RECORDS);
+
+const byScore = (a: ScoreRecord, b: ScoreRecord): number => b.score - a.score || a.durationMs - b.durationMs;
+const byTime = (a: ScoreRecord, b: ScoreRecord): number => a.durationMs - b.durationMs || b.score - a.score;
+
+// Timed modes only rank runs that reached the goal
+export const leaderboard = (records: ScoreRecord[], mode: string, control: RecordControl, size = LEADERBOARD_SIZE): ScoreRecord[] => {
+  const timed = isTimedMode(mode);
+  return records
+    .filter(record => record.mode === mode && record.control === control && (!timed || record.completed))
+    .sort(timed ? byTime : byScore)
+    .slice(0, size);
+};
+
+// 1-based place of a record on its leaderboard, or null when it didn't make the table
+export const leaderboardRank = (records: ScoreRecord[], record: ScoreRecord): number | null => {
+  const index = leaderboard(records, record.mode, record.control).findIndex(entry => entry.id === record.id);
+  return index < 0 ? null : index + 1;
+};
+
+export interface LifetimeTotals {
+  games: number;
+  score: number;
+  lines: number;
+  pieces: number;
+  durationMs: number;
+}
+
+export const lifetimeTotals = (records: ScoreRecord[]): LifetimeTotals => records.reduce<LifetimeTotals>(
+  (totals, record) => ({
+    games: totals.games + 1,
+    score: totals.score + record.score,
+    lines: totals.lines + record.lines,
+    pieces: totals.pieces + record.pieces,
+    durationMs: totals.durationMs + record.durationMs,
+  }),
+  { games: 0, score: 0, lines: 0, pieces: 0, durationMs: 0 },
+);
+
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// Sprint times are shown to the hundredth of a second, e.g. 1:23.45. Game time only advances in
+// whole frames (FRAME_MS), so a third digit would claim precision the engine does not have.
+export const formatPreciseDuration = (ms: number): string => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hundredths = String(Math.floor((ms % 1000) / 10)).padStart(2, '0');
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}.${hundredths}`;
+};
+
+// The value a record is ranked by, formatted for display
+export const formatRecordResult = (record: ScoreRecord): string =>
+  isTimedMode(record.mode) ? formatPreciseDuration(record.durationMs) : String(record.score);
+
+interface RecordsFile {
+  version: number;
+  records: ScoreRecord[];
+}
+
+export const exportRecords = (records: ScoreRecord[]): RecordsFile => ({ version: RECORDS_VERSION, records });
+
+const isRecord = (value: unknown): value is ScoreRecord => {
+  const record = value as Partial<ScoreRecord> | null;
+  return !!record
+    && typeof record.id === 'string'
+    && typeof record.mode === 'string'
+    && (record.control === 'human' || record.control === 'ai')
+    && typeof record.name === 'string'
+    && ['score', 'lines', 'level', 'durationMs', 'pps', 'pieces'].every(key => typeof record[key as keyof ScoreRecord] === 'number')
+    && typeof record.completed === 'boolean'
+    && typeof record.date === 'string';
+};
+
+export const parseRecords = (json: string): ScoreRecord[] => {
+  let data: Partial<RecordsFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('기록 파일을 읽을 수 없습니다');
+  }
+  if (data.version !== RECORDS_VERSION) {
+    throw new Error(`지원하지 않는 기록 버전입니다: ${data.version}`);
+  }
+  if (!Array.isArray(data.records) || !data.records.every(isRecord)) {
+    throw new Error('기록 파일 형식이 올바르지 않습니다');
+  }
+  return data.records;
+};
+
+// Imported records join the existing ones; records already present (same id) aren't duplicated
+export const mergeRecords = (records: ScoreRecord[], imported: ScoreRecord[]): ScoreRecord[] => {
+  const known = new Set(records.map(record => record.id));
+  const merged = [...records, ...imported.filter(record => !known.has(record.id))];
+  return merged.sort((a, b) => a.date.localeCompare(b.date)).slice(-MAX_RECORDS);
+};
@@ -0,0 +1,99 @@
+import { readFileSync } from 'node:fs';
+import { AI_AGENTS, createAgent } from '../ai/agents';
+import { AiAgentConfig, AiAgentId } from '../ai/types';
+import { parseWeightPreset, presetConfig } from '../ai/presets';
+import { SimulatedGame, simulateGame } from '../ai/simulate';
+import { mean, median, numberArg, parseArgs, toCsv, writeOutput } from './cli';
+
+// Plays N seeded games per agent without rendering and reports how well each one does.
+//
+//   npm run ai:bench -- --agents greedy,eltetris --games 20 --max-pieces 1000 --out results.csv
+//
+// Options: --agents (comma separated, default all), --preset <file> (adds a tuned preset),
+// --games, --seed (first seed; game i uses seed + i), --max-pieces, --budget (ms per decision),
+// --out (.csv for one row per game, .json for the full report).
+
+const HOLES_SAMPLE_INTERVAL = 50; // pieces
+
+const args = parseArgs(process.argv.slice(2));
+const games = numberArg(args, 'games', 10);
+const firstSeed = numberArg(args, 'seed', 1);
+const maxPieces = numberArg(args, 'max-pieces', 500);
+const timeBudget = args.has('budget') ? numberArg(args, 'budget', 0) : undefined;
+
+const agents: { label: string; config: AiAgentConfig }[] = (args.get('agents')?.split(',') ?? AI_AGENTS.map(a => a.id))
+  .map(id => ({ label: id, config: { id: id as AiAgentId } }));
+const presetPath = args.get('preset');
+if (presetPath) {
+  const preset = parseWeightPreset(readFileSync(presetPath, 'utf8'));
+  agents.push({ label: `preset:${preset.name}`, config: presetConfig(preset) });
+}
+
+// Average holes every HOLES_SAMPLE_INTERVAL pieces, over the games still running at that point
+const holesOverTime = (results: SimulatedGame[]): number[] => {
+  const samples: number[] = [];
+  for (let piece = HOLES_SAMPLE_INTERVAL; piece <= maxPieces; piece += HOLES_SAMPLE_INTERVAL) {
+    const alive = results.filter(game => game.holes.length >= piece);
+    if (alive.length === 0) break;
+    samples.push(mean(alive.map(game => game.holes[piece - 1])));
+  }
+  return samples;
+};
+
+const report = agents.map(({ label, config }) => {
+  const results: SimulatedGame[] = [];
+  for (let i = 0; i < games; i++) {
+    const agent = createAgent({ ...config, seed: firstSeed + i });
+    results.push(simulateGame(agent, { seed: firstSeed + i, maxPieces, timeBudget }));
+    process.stdout.write(`\r${label}: ${i + 1}/${games}`);
+  }
+  process.stdout.write('\n');
+  const decisions = results.flatMap(game => game.decisionMs);
+  return {
+    label,
+    results,
+    summary: {
+      agent: label,
+      meanLines: mean(results.map(game => game.lines)),
+      medianLines: median(results.map(game => game.lines)),
+      meanScore: mean(results.map(game => game.score)),
+      medianScore: median(results.map(game => game.score)),
+      meanPieces: mean(results.map(game => game.pieces)),
+      medianPieces: median(results.map(game => game.pieces)),
+      toppedOut: results.filter(game => game.toppedOut).length,
+      meanHoles: mean(results.flatMap(game => game.holes)),
+      meanDecisionMs: mean(decisions),
+      maxDecisionMs: Math.max(0, ...decisions),
+    },
+    holesOverTime: holesOverTime(results),
+  };
+});
+
+const round = (value: number) => Math.round(value * 100) / 100;
+console.table(report.map(({ summary }) =>
+  Object.fromEntries(Object.entries(summary).map(([key, value]) => [key, typeof value === 'number' ? round(value) : value]))));
+
+const out = args.get('out');
+if (out?.endsWith('.json')) {
+  writeOutput(out, JSON.stringify({
+    settings: { games, firstSeed, maxPieces, timeBudget: timeBudget ?? null, holesSampleInterval: HOLES_SAMPLE_INTERVAL },
+    agents: report.map(({ summary, holesOverTime, results }) => ({
+      ...summary,
+      holesOverTime,
+      games: results.map(({ decisionMs, ...game }) => ({ ...game, meanDecisionMs: mean(decisionMs) })),
+    })),
+  }, null, 2));
+} else if (out) {
+  writeOutput(out, toCsv(report.flatMap(({ label, results }) => results.map(game => ({
+    agent: label,
+    seed: game.seed,
+    pieces: game.pieces,
+    lines: game.lines,
+    score: game.score,
+    toppedOut: game.toppedOut,
+    meanHoles: mean(game.holes).toFixed(2),
+    maxHoles: Math.max(0, ...game.holes),
+    meanDecisionMs: mean(game.decisionMs).toFixed(3),
+    maxDecisionMs: Math.max(0, ...game.decisionMs).toFixed(3),
+  })))));
+}
@@ -0,0 +1,101 @@
+import { getAgentInfo } from '../ai/agents';
+import { AiAgentId, AiWeights } from '../ai/types';
+import { PRESET_VERSION, WeightPreset } from '../ai/presets';
+import { simulateGame } from '../ai/simulate';
+import { RngState, nextRandom } from '../engine/random';
+import { mean, numberArg, parseArgs, writeOutput } from './cli';
+
+// Tunes an agent's evaluation weights with the cross-entropy method: sample weight vectors
+// around a mean, keep the best fraction by lines cleared, refit the mean and spread, repeat.
+// Every candidate in a generation plays the same seeds, so they are compared on equal terms.
+// Those seeds change between generations, so the elite is re-scored on a fixed validation set
+// before it can replace the best weights found so far.
+//
+//   npm run ai:tune -- --agent eltetris --generations 15 --population 24 --out tuned.json
+//
+// Options: --agent, --generations, --population, --elite (fraction kept), --games (per
+// candidate), --validation (games in the validation set), --max-pieces, --seed, --name, --out.
+// Load the written preset from the sidebar.
+
+const VALIDATION_SEED = 1;
+const TRAINING_SEED = 1000;
+
+const args = parseArgs(process.argv.slice(2));
+const agentId = (args.get('agent') ?? 'eltetris') as AiAgentId;
+const generations = numberArg(args, 'generations', 15);
+const population = numberArg(args, 'population', 24);
+const eliteCount = Math.max(2, Math.round(population * numberArg(args, 'elite', 0.25)));
+const games = numberArg(args, 'games', 3);
+const validationGames = numberArg(args, 'validation', 5);
+const maxPieces = numberArg(args, 'max-pieces', 300);
+let rng: RngState = numberArg(args, 'seed', 1) >>> 0;
+const out = args.get('out') ?? `ai-preset-${agentId}.json`;
+
+const info = getAgentInfo(agentId);
+if (!info.defaultWeights) throw new Error(`Agent ${agentId} has no weights to tune`);
+
+// Standard normal sample (Box-Muller) from the seeded generator
+const gaussian = (): number => {
+  let u: number;
+  let v: number;
+  [u, rng] = nextRandom(rng);
+  [v, rng] = nextRandom(rng);
+  return Math.sqrt(-2 * Math.log(1 - u)) * Math.cos(2 * Math.PI * v);
+};
+
+const fitness = (weights: AiWeights, firstSeed: number, count: number): number => {
+  const lines: number[] = [];
+  for (let g = 0; g < count; g++) {
+    const agent = info.create({ id: agentId, weights });
+    lines.push(simulateGame(agent, { seed: firstSeed + g, maxPieces }).lines);
+  }
+  return mean(lines);
+};
+
+const validate = (weights: AiWeights): number => fitness(weights, VALIDATION_SEED, validationGames);
+
+// Candidates are vectors in the order of the weights' keys
+const tune = <W extends AiWeights & Record<keyof W, number>>(defaults: W): { weights: W; fitness: number } => {
+  const keys = Object.keys(defaults) as (keyof W)[];
+  const toWeights = (vector: number[]): W => ({ ...defaults, ...Object.fromEntries(keys.map((key, i) => [key, vector[i]])) });
+
+  let means: number[] = keys.map(key => defaults[key]);
+  let spreads = means.map(value => Math.abs(value) * 0.5 + 1);
+  let best = { weights: defaults, fitness: validate(defaults) };
+  console.log(`defaults: ${best.fitness.toFixed(1)} lines on validation`);
+
+  for (let generation = 0; generation < generations; generation++) {
+    const firstSeed = TRAINING_SEED + generation * games;
+    const candidates = Array.from({ length: population }, () => {
+      const vector = means.map((m, i) => m + spreads[i] * gaussian());
+      return { vector, fitness: fitness(toWeights(vector), firstSeed, games) };
+    });
+    candidates.sort((a, b) => b.fitness - a.fitness);
+    const elite = candidates.slice(0, eliteCount);
+
+    // Extra spread that fades out keeps the search from collapsing onto an early elite
+    const noise = Math.max(0, 1 - generation / generations);
+    means = means.map((_, i) => mean(elite.map(c => c.vector[i])));
+    spreads = means.map((m, i) => Math.sqrt(mean(elite.map(c => (c.vector[i] - m) ** 2))) + noise);
+
+    const validated = elite
+      .map(c => toWeights(c.vector))
+      .map(weights => ({ weights, fitness: validate(weights) }))
+      .sort((a, b) => b.fitness - a.fitness)[0];
+    if (validated.fitness > best.fitness) best = validated;
+    console.log(`generation ${generation + 1}/${generations}: best ${elite[0].fitness.toFixed(1)} lines, elite mean ${mean(elite.map(c => c.fitness)).toFixed(1)}, validated ${validated.fitness.toFixed(1)}`);
+  }
+  return best;
+};
+
+const best = tune(info.defaultWeights);
+
+const preset: WeightPreset = {
+  version: PRESET_VERSION,
+  name: args.get('name') ?? `${agentId} (CEM)`,
+  agent: agentId,
+  weights: best.weights,
+  fitness: best.fitness,
+  createdAt: new Date().toISOString(),
+};
+writeOutput(out, JSON.stringify(preset, null, 2));
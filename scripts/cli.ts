@@ -0,0 +1,43 @@
+import { writeFileSync } from 'node:fs';
+
+// Helpers shared by the command-line tools
+
+// Parses --name value and --flag arguments
+export const parseArgs = (argv: string[]): Map<string, string> => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) throw new Error(`Unexpected argument: ${argv[i]}`);
+    const name = argv[i].slice(2);
+    const value = argv[i + 1] && !argv[i + 1].startsWith('--') ? argv[++i] : 'true';
+    args.set(name, value);
+  }
+  return args;
+};
+
+export const numberArg = (args: Map<string, string>, name: string, fallback: number): number => {
+  const raw = args.get(name);
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new Error(`--${name} must be a number, got ${raw}`);
+  return value;
+};
+
+export const mean = (values: number[]): number => (values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const toCsv = (rows: Record<string, string | number | boolean>[]): string => {
+  if (rows.length === 0) return '';
+  const columns = Object.keys(rows[0]);
+  return [columns.join(','), ...rows.map(row => columns.map(column => String(row[column])).join(','))].join('\n') + '\n';
+};
+
+export const writeOutput = (path: string, content: string): void => {
+  writeFileSync(path, content);
+  console.log(`Wrote ${path}`);
+};
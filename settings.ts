@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+
+// Player preferences persisted in localStorage. Stored objects are merged over the defaults,
+// so settings added in later versions pick up their default value.
+
+const STORAGE_PREFIX = 'tetris-am3d:';
+
+export const loadSetting = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    if (raw === null) return fallback;
+    const parsed = JSON.parse(raw);
+    if (fallback && typeof fallback === 'object' && !Array.isArray(fallback)) return { ...fallback, ...parsed };
+    return parsed as T;
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveSetting = <T>(key: string, value: T): void => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch {
+    // Storage can be unavailable (private mode, quota); settings then only last for the session
+  }
+};
+
+// useState that reads its initial value from, and writes changes back to, localStorage
+export const usePersistentSetting = <T>(key: string, fallback: T): [T, React.Dispatch<React.SetStateAction<T>>] => {
+  const [value, setValue] = useState<T>(() => loadSetting(key, fallback));
+  useEffect(() => {
+    saveSetting(key, value);
+  }, [key, value]);
+  return [value, setValue];
+};
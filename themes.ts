@@ -0,0 +1,177 @@
+import { COLORS, GARBAGE_CELL } from './constants';
+
+// Visual themes: piece colors, block material, background, board grid and lights. Colors are
+// '#rrggbb' strings so themes read naturally as JSON and can be shared as files.
+
+export type BlockPattern = 'none' | 'stripes' | 'dots' | 'cross' | 'checker' | 'diagonal' | 'ring' | 'bars';
+
+export interface ThemeLight {
+  color: string;
+  intensity: number;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  pieceColors: string[]; // Indexed like COLORS; index 0 (empty) is unused, the garbage color may be missing
+  patterns?: BlockPattern[]; // Per color index, drawn on the block faces so pieces differ by more than hue
+  material: {
+    metalness: number; // 0..1
+    roughness: number; // 0..1
+    emissive: number; // Glow in the block's own color, 0..1
+  };
+  background: string;
+  grid: {
+    outline: string; // Board border
+    lines: string | null; // Cell grid behind the board, null for none
+    opacity: number; // Of the cell grid
+  };
+  lights: {
+    ambient: ThemeLight;
+    directional: ThemeLight & { position: [number, number, number] };
+  };
+}
+
+export const THEME_VERSION = 1;
+
+const toHex = (color: number): string => `#${color.toString(16).padStart(6, '0')}`;
+
+export const hexToNumber = (color: string): number => Number.parseInt(color.slice(1), 16);
+
+const DEFAULT_LIGHTS: Theme['lights'] = {
+  ambient: { color: '#ffffff', intensity: 0.6 },
+  directional: { color: '#ffffff', intensity: 0.8, position: [5, 10, 7.5] },
+};
+
+export const BUILT_IN_THEMES: Theme[] = [
+  {
+    id: 'default',
+    name: '기본',
+    pieceColors: COLORS.map(toHex),
+    material: { metalness: 0, roughness: 1, emissive: 0 },
+    background: '#2d3748',
+    grid: { outline: '#aaaaaa', lines: null, opacity: 0 },
+    lights: DEFAULT_LIGHTS,
+  },
+  {
+    id: 'guideline',
+    name: '클래식 (가이드라인)',
+    // I cyan, L orange, J blue, O yellow, S green, Z red, T purple
+    pieceColors: ['#000000', '#00f0f0', '#f0a000', '#0000f0', '#f0f000', '#00f000', '#f00000', '#a000f0', '#9a9a9a'],
+    material: { metalness: 0.1, roughness: 0.6, emissive: 0 },
+    background: '#1a202c',
+    grid: { outline: '#cbd5e0', lines: '#4a5568', opacity: 0.35 },
+    lights: DEFAULT_LIGHTS,
+  },
+  {
+    id: 'neon',
+    name: '네온',
+    pieceColors: ['#000000', '#00fff7', '#ff9e00', '#3d5afe', '#ffee00', '#39ff14', '#ff0055', '#d500f9', '#4a4a6a'],
+    material: { metalness: 0.3, roughness: 0.3, emissive: 0.6 },
+    background: '#05010f',
+    grid: { outline: '#ff00ff', lines: '#2a0a4a', opacity: 0.6 },
+    lights: {
+      ambient: { color: '#6a5acd', intensity: 0.4 },
+      directional: { color: '#ffffff', intensity: 0.6, position: [-4, 12, 8] },
+    },
+  },
+  {
+    id: 'pastel',
+    name: '파스텔',
+    pieceColors: ['#000000', '#a0e7e5', '#ffcf9f', '#a3bffa', '#fdfd96', '#b4f8c8', '#ffaebc', '#d5aaff', '#cbc3d6'],
+    material: { metalness: 0, roughness: 0.9, emissive: 0.1 },
+    background: '#f3e8ff',
+    grid: { outline: '#9f7aea', lines: '#e9d8fd', opacity: 0.8 },
+    lights: {
+      ambient: { color: '#ffffff', intensity: 0.85 },
+      directional: { color: '#fff5e6', intensity: 0.5, position: [5, 10, 7.5] },
+    },
+  },
+  {
+    id: 'colorblind',
+    name: '색각 보정 (무늬)',
+    // Okabe-Ito palette, which stays distinguishable for the common forms of color blindness
+    pieceColors: ['#000000', '#56b4e9', '#e69f00', '#0072b2', '#f0e442', '#009e73', '#d55e00', '#cc79a7', '#999999'],
+    patterns: ['none', 'stripes', 'dots', 'cross', 'none', 'diagonal', 'checker', 'ring', 'bars'],
+    material: { metalness: 0, roughness: 0.8, emissive: 0 },
+    background: '#222222',
+    grid: { outline: '#ffffff', lines: '#555555', opacity: 0.5 },
+    lights: DEFAULT_LIGHTS,
+  },
+];
+
+export const DEFAULT_THEME_ID = 'default';
+
+export const findTheme = (id: string, customThemes: Theme[]): Theme =>
+  [...BUILT_IN_THEMES, ...customThemes].find(theme => theme.id === id) ?? BUILT_IN_THEMES[0];
+
+// Theme colors as numbers, the form three.js and COLORS use. Themes made before garbage blocks
+// existed get the default garbage color.
+export const themePalette = (theme: Theme): number[] =>
+  COLORS.map((fallback, index) => (theme.pieceColors[index] ? hexToNumber(theme.pieceColors[index]) : fallback));
+
+// CSS equivalent of a block pattern, layered over the piece color in the 2D piece previews
+export const patternCss = (pattern: BlockPattern | undefined): { backgroundImage?: string; backgroundSize?: string } => {
+  const ink = 'rgba(0, 0, 0, 0.45)';
+  switch (pattern) {
+    case 'stripes':
+      return { backgroundImage: `repeating-linear-gradient(0deg, ${ink} 0 2px, transparent 2px 6px)` };
+    case 'bars':
+      return { backgroundImage: `repeating-linear-gradient(90deg, ${ink} 0 2px, transparent 2px 6px)` };
+    case 'diagonal':
+      return { backgroundImage: `repeating-linear-gradient(45deg, ${ink} 0 2px, transparent 2px 6px)` };
+    case 'dots':
+      return { backgroundImage: `radial-gradient(${ink} 25%, transparent 30%)`, backgroundSize: '6px 6px' };
+    case 'cross':
+      return {
+        backgroundImage: `linear-gradient(45deg, transparent 42%, ${ink} 42% 58%, transparent 58%), linear-gradient(-45deg, transparent 42%, ${ink} 42% 58%, transparent 58%)`,
+      };
+    case 'checker':
+      return { backgroundImage: `repeating-conic-gradient(${ink} 0 25%, transparent 0 50%)`, backgroundSize: '6px 6px' };
+    case 'ring':
+      return { backgroundImage: `radial-gradient(circle, transparent 30%, ${ink} 32% 45%, transparent 47%)` };
+    default:
+      return {};
+  }
+};
+
+interface ThemeFile {
+  version: number;
+  theme: Theme;
+}
+
+export const exportTheme = (theme: Theme): ThemeFile => ({ version: THEME_VERSION, theme });
+
+const isColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-fA-F]{6}$/.test(value);
+const isUnit = (value: unknown): boolean => typeof value === 'number' && value >= 0 && value <= 1;
+const isLight = (value: unknown): boolean => {
+  const light = value as Partial<ThemeLight> | undefined;
+  return !!light && isColor(light.color) && typeof light.intensity === 'number' && light.intensity >= 0;
+};
+
+// Imported themes get an id of their own, so they never replace a built-in one
+export const parseTheme = (json: string): Theme => {
+  let data: Partial<ThemeFile>;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('테마 파일을 읽을 수 없습니다');
+  }
+  if (data.version !== THEME_VERSION) {
+    throw new Error(`지원하지 않는 테마 버전입니다: ${data.version}`);
+  }
+  const theme = data.theme;
+  const valid = !!theme
+    && typeof theme.name === 'string'
+    && Array.isArray(theme.pieceColors) && theme.pieceColors.length >= GARBAGE_CELL && theme.pieceColors.every(isColor)
+    && (theme.patterns === undefined || Array.isArray(theme.patterns))
+    && !!theme.material && isUnit(theme.material.metalness) && isUnit(theme.material.roughness) && isUnit(theme.material.emissive)
+    && isColor(theme.background)
+    && !!theme.grid && isColor(theme.grid.outline) && (theme.grid.lines === null || isColor(theme.grid.lines)) && isUnit(theme.grid.opacity)
+    && !!theme.lights && isLight(theme.lights.ambient) && isLight(theme.lights.directional)
+    && Array.isArray(theme.lights.directional.position) && theme.lights.directional.position.length === 3;
+  if (!valid) {
+    throw new Error('테마 파일 형식이 올바르지 않습니다');
+  }
+  return { ...theme, id: `custom-${Date.now().toString(36)}` };
+};
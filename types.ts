@@ -1,5 +1,7 @@
+import type { GameModeId } from './engine/modes';
+import type { GameOverReason, GameSettings } from './engine/types';
 
-export type CellValue = number; // 0 for empty, 1-7 for tetromino types/colors
+export type CellValue = number; // 0 for empty, 1-7 for tetromino types/colors, 8 for garbage
 export type BoardMatrix = CellValue[][];
 
 export interface Position {
@@ -24,5 +26,70 @@ export enum GameState {
   Playing,
   Paused,
   GameOver,
-  Initial
+  Initial,
+  Replay
+}
+
+export interface GameSetup extends GameSettings {
+  id: number; // Changes for every new game, so restarts are detected even with equal settings
+}
+
+// How a finished game went, reported when it ends
+export interface GameResult {
+  mode: GameModeId;
+  reason: GameOverReason;
+  score: number;
+  lines: number;
+  level: number;
+  durationMs: number; // Game time, so pauses don't count
+  pieces: number; // Pieces locked
+  aiAssisted: boolean; // The AI was in control at some point
+}
+
+// What the side panels show besides the board
+export interface PiecePreviews {
+  next: ActivePiece[];
+  hold: ActivePiece | null;
+  holdUsed: boolean;
+}
+
+// Ghost piece: a copy of the current piece drawn where a hard drop would land it
+export type GhostStyle = 'translucent' | 'wireframe';
+
+export interface GhostSettings {
+  enabled: boolean;
+  style: GhostStyle;
+  opacity: number; // 0..1
+}
+
+// AI coach: suggested placements drawn over the board while the player keeps control
+export interface HintSettings {
+  enabled: boolean;
+  showTopThree: boolean; // Also draw the runner-up placements, labelled with their scores
+}
+
+// Pieces locked while a suggestion was shown, and how many landed exactly on it
+export interface HintStats {
+  suggested: number;
+  matched: number;
+}
+
+// Camera: a named viewpoint the view eases to, optionally tilting toward the falling piece
+export type CameraPresetId = 'default' | 'front' | 'isometric' | 'dramatic' | 'topDown';
+
+export interface CameraSettings {
+  preset: CameraPresetId;
+  followPiece: boolean;
+}
+
+// Line clear and hard drop feedback: particles, camera shake and the sliding collapse of rows
+export interface EffectSettings {
+  intensity: number; // 0..1, scales particle count, speed and shake
+  reducedMotion: boolean; // Turns every effect off
+}
+
+export interface AudioSettings {
+  musicVolume: number; // 0..1
+  effectsVolume: number; // 0..1
+  muted: boolean;
 }